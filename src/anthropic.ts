@@ -0,0 +1,495 @@
+/**
+ * Convert between Anthropic Messages API format and Antigravity API format
+ */
+
+import type { StreamChunk } from "./client";
+import { supportsToolCallIds, type AntigravityContent, type AntigravityRequest } from "./converter";
+
+export type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+    type: "image" | "document";
+    source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+  }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | {
+    type: "tool_result";
+    tool_use_id: string;
+    content?: string | Array<{ type: string; text?: string }>;
+    is_error?: boolean;
+  }
+  | { type: "thinking"; thinking: string; signature?: string }
+  | { type: "redacted_thinking"; data: string };
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string | Array<{ type: "text"; text: string }>;
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  tools?: Array<{
+    name: string;
+    description?: string;
+    input_schema?: Record<string, unknown>;
+  }>;
+  tool_choice?: { type: "auto" | "any" | "tool" | "none"; name?: string };
+  thinking?: { type: "enabled" | "disabled"; budget_tokens?: number };
+}
+
+export type AnthropicStopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use";
+
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: Array<
+    | { type: "text"; text: string }
+    | { type: "thinking"; thinking: string; signature: string }
+    | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  >;
+  stop_reason: AnthropicStopReason | null;
+  stop_sequence: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+/**
+ * Convert an Anthropic Messages request to Antigravity format
+ */
+export function convertAnthropicToAntigravity(request: AnthropicMessagesRequest): AntigravityRequest {
+  const antigravityRequest: AntigravityRequest = {
+    contents: [],
+  };
+
+  // System prompt may be a string or a list of text blocks
+  const systemText =
+    typeof request.system === "string"
+      ? request.system
+      : (request.system || []).map((b) => b.text).join("\n\n");
+  if (systemText) {
+    antigravityRequest.systemInstruction = {
+      parts: [{ text: systemText }],
+    };
+  }
+
+  // Tool results only carry the tool_use id, so remember which function each id belongs to
+  const toolNames = new Map<string, string>();
+  for (const msg of request.messages) {
+    if (msg.role !== "assistant" || typeof msg.content === "string") continue;
+    for (const block of msg.content) {
+      if (block.type === "tool_use") {
+        toolNames.set(block.id, block.name);
+      }
+    }
+  }
+
+  const sendIds = supportsToolCallIds(request.model);
+
+  for (const msg of request.messages) {
+    const content = convertAnthropicMessage(msg, toolNames, sendIds);
+    if (content) {
+      antigravityRequest.contents.push(content);
+    }
+  }
+
+  // Convert generation config
+  antigravityRequest.generationConfig = {
+    maxOutputTokens: request.max_tokens,
+  };
+  if (request.temperature !== undefined) {
+    antigravityRequest.generationConfig.temperature = request.temperature;
+  }
+  if (request.top_p !== undefined) {
+    antigravityRequest.generationConfig.topP = request.top_p;
+  }
+  if (request.top_k !== undefined) {
+    antigravityRequest.generationConfig.topK = request.top_k;
+  }
+  if (request.stop_sequences && request.stop_sequences.length > 0) {
+    antigravityRequest.generationConfig.stopSequences = request.stop_sequences;
+  }
+  if (request.thinking?.type === "enabled" && request.thinking.budget_tokens) {
+    antigravityRequest.generationConfig.thinkingConfig = {
+      include_thoughts: true,
+      thinking_budget: request.thinking.budget_tokens,
+    };
+  } else if (request.thinking?.type === "disabled") {
+    antigravityRequest.generationConfig.thinkingConfig = { thinking_budget: 0 };
+  }
+
+  // Convert tools
+  if (request.tools && request.tools.length > 0) {
+    antigravityRequest.tools = [
+      {
+        functionDeclarations: request.tools.map((t) => ({
+          name: t.name,
+          description: t.description || "",
+          parameters: t.input_schema || { type: "object", properties: {} },
+        })),
+      },
+    ];
+
+    if (request.tool_choice) {
+      const functionCallingConfig: { mode?: string; allowedFunctionNames?: string[] } = {};
+
+      if (request.tool_choice.type === "none") {
+        functionCallingConfig.mode = "NONE";
+      } else if (request.tool_choice.type === "auto") {
+        functionCallingConfig.mode = "AUTO";
+      } else if (request.tool_choice.type === "any") {
+        functionCallingConfig.mode = "ANY";
+      } else if (request.tool_choice.type === "tool" && request.tool_choice.name) {
+        functionCallingConfig.mode = "ANY";
+        functionCallingConfig.allowedFunctionNames = [request.tool_choice.name];
+      }
+
+      antigravityRequest.toolConfig = { functionCallingConfig };
+    }
+  }
+
+  return antigravityRequest;
+}
+
+/**
+ * Convert a single Anthropic message to Antigravity content
+ */
+function convertAnthropicMessage(
+  msg: AnthropicMessage,
+  toolNames: Map<string, string>,
+  sendIds: boolean
+): AntigravityContent | null {
+  const role: "user" | "model" = msg.role === "assistant" ? "model" : "user";
+  const parts: AntigravityContent["parts"] = [];
+
+  if (typeof msg.content === "string") {
+    if (msg.content) {
+      parts.push({ text: msg.content });
+    }
+    return parts.length > 0 ? { role, parts } : null;
+  }
+
+  for (const block of msg.content) {
+    switch (block.type) {
+      case "text":
+        if (block.text) {
+          parts.push({ text: block.text });
+        }
+        break;
+
+      case "image":
+      case "document":
+        if (block.source.type === "base64") {
+          parts.push({
+            inlineData: {
+              mimeType: block.source.media_type,
+              data: block.source.data,
+            },
+          });
+        }
+        break;
+
+      case "thinking":
+        parts.push({
+          text: block.thinking,
+          thought: true,
+          ...(block.signature ? { thoughtSignature: block.signature } : {}),
+        });
+        break;
+
+      case "tool_use":
+        parts.push({
+          functionCall: {
+            ...(sendIds ? { id: block.id } : {}),
+            name: block.name,
+            args: block.input || {},
+          },
+        });
+        break;
+
+      case "tool_result": {
+        const text =
+          typeof block.content === "string"
+            ? block.content
+            : (block.content || [])
+              .filter((c) => c.type === "text" && c.text)
+              .map((c) => c.text)
+              .join("\n");
+
+        let responseContent: unknown;
+        try {
+          responseContent = JSON.parse(text);
+        } catch {
+          responseContent = text;
+        }
+        // functionResponse.response must be an object
+        if (typeof responseContent !== "object" || responseContent === null || Array.isArray(responseContent)) {
+          responseContent = { result: responseContent };
+        }
+        if (block.is_error) {
+          responseContent = { error: responseContent };
+        }
+
+        parts.push({
+          functionResponse: {
+            ...(sendIds ? { id: block.tool_use_id } : {}),
+            name: toolNames.get(block.tool_use_id) || block.tool_use_id,
+            response: responseContent,
+          },
+        });
+        break;
+      }
+
+      // Redacted thinking cannot be replayed upstream
+      case "redacted_thinking":
+        break;
+    }
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return { role, parts };
+}
+
+/**
+ * Map an Antigravity finish reason to an Anthropic stop reason
+ */
+function toStopReason(finishReason: string | undefined, hasToolUse: boolean): AnthropicStopReason {
+  if (hasToolUse) return "tool_use";
+  if (finishReason === "MAX_TOKENS") return "max_tokens";
+  return "end_turn";
+}
+
+/**
+ * Convert Antigravity response to Anthropic Messages format
+ */
+export function convertAntigravityToAnthropic(
+  response: {
+    candidates?: Array<{
+      content?: {
+        parts?: Array<{
+          text?: string;
+          thought?: boolean;
+          thoughtSignature?: string;
+          functionCall?: { id?: string; name: string; args: Record<string, unknown> };
+        }>;
+      };
+      finishReason?: string;
+    }>;
+    usageMetadata?: {
+      promptTokenCount?: number;
+      candidatesTokenCount?: number;
+      cachedContentTokenCount?: number;
+      totalTokenCount?: number;
+    };
+  },
+  model: string
+): AnthropicMessagesResponse {
+  const candidate = response.candidates?.[0];
+  const content: AnthropicMessagesResponse["content"] = [];
+
+  for (const part of candidate?.content?.parts || []) {
+    if (part.thought === true) {
+      content.push({
+        type: "thinking",
+        thinking: part.text || "",
+        signature: part.thoughtSignature || "",
+      });
+    } else if (part.functionCall) {
+      content.push({
+        type: "tool_use",
+        id: part.functionCall.id || `toolu_${crypto.randomUUID().replace(/-/g, "")}`,
+        name: part.functionCall.name,
+        input: part.functionCall.args || {},
+      });
+    } else if (part.text) {
+      // Merge consecutive text parts into a single block
+      const last = content[content.length - 1];
+      if (last?.type === "text") {
+        last.text += part.text;
+      } else {
+        content.push({ type: "text", text: part.text });
+      }
+    }
+  }
+
+  const cachedTokens = response.usageMetadata?.cachedContentTokenCount || 0;
+
+  return {
+    id: `msg_${crypto.randomUUID().replace(/-/g, "")}`,
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: toStopReason(
+      candidate?.finishReason,
+      content.some((b) => b.type === "tool_use")
+    ),
+    stop_sequence: null,
+    // Anthropic counts cache reads separately from input tokens
+    usage: {
+      input_tokens: (response.usageMetadata?.promptTokenCount || 0) - cachedTokens,
+      output_tokens: response.usageMetadata?.candidatesTokenCount || 0,
+      ...(cachedTokens ? { cache_read_input_tokens: cachedTokens } : {}),
+    },
+  };
+}
+
+/**
+ * Format an Anthropic SSE event
+ */
+export function formatAnthropicSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Translate Antigravity stream chunks into the Anthropic SSE event sequence
+ */
+export async function* streamAntigravityToAnthropic(
+  chunks: AsyncIterable<StreamChunk>,
+  model: string
+): AsyncGenerator<string> {
+  let blockIndex = -1;
+  let openBlock: "text" | "thinking" | null = null;
+  let hasToolUse = false;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cachedTokens = 0;
+
+  yield formatAnthropicSSE("message_start", {
+    type: "message_start",
+    message: {
+      id: `msg_${crypto.randomUUID().replace(/-/g, "")}`,
+      type: "message",
+      role: "assistant",
+      model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: 0, output_tokens: 0 },
+    },
+  });
+
+  const closeBlock = (): string | null => {
+    if (openBlock === null) return null;
+    openBlock = null;
+    return formatAnthropicSSE("content_block_stop", {
+      type: "content_block_stop",
+      index: blockIndex,
+    });
+  };
+
+  for await (const chunk of chunks) {
+    if (chunk.usage) {
+      inputTokens = chunk.usage.promptTokens || inputTokens;
+      outputTokens = chunk.usage.completionTokens || outputTokens;
+      cachedTokens = chunk.usage.cachedTokens || cachedTokens;
+    }
+
+    if (chunk.type === "content" && chunk.content) {
+      if (openBlock !== "text") {
+        const stop = closeBlock();
+        if (stop) yield stop;
+        openBlock = "text";
+        blockIndex++;
+        yield formatAnthropicSSE("content_block_start", {
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: { type: "text", text: "" },
+        });
+      }
+      yield formatAnthropicSSE("content_block_delta", {
+        type: "content_block_delta",
+        index: blockIndex,
+        delta: { type: "text_delta", text: chunk.content },
+      });
+    } else if (chunk.type === "thinking") {
+      if (openBlock !== "thinking") {
+        const stop = closeBlock();
+        if (stop) yield stop;
+        openBlock = "thinking";
+        blockIndex++;
+        yield formatAnthropicSSE("content_block_start", {
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: { type: "thinking", thinking: "" },
+        });
+      }
+      if (chunk.thinking) {
+        yield formatAnthropicSSE("content_block_delta", {
+          type: "content_block_delta",
+          index: blockIndex,
+          delta: { type: "thinking_delta", thinking: chunk.thinking },
+        });
+      }
+      if (chunk.signature) {
+        yield formatAnthropicSSE("content_block_delta", {
+          type: "content_block_delta",
+          index: blockIndex,
+          delta: { type: "signature_delta", signature: chunk.signature },
+        });
+      }
+    } else if (chunk.type === "tool_call" && chunk.toolCall) {
+      const stop = closeBlock();
+      if (stop) yield stop;
+      hasToolUse = true;
+      blockIndex++;
+      yield formatAnthropicSSE("content_block_start", {
+        type: "content_block_start",
+        index: blockIndex,
+        content_block: {
+          type: "tool_use",
+          id: chunk.toolCall.id || `toolu_${crypto.randomUUID().replace(/-/g, "")}`,
+          name: chunk.toolCall.name,
+          input: {},
+        },
+      });
+      yield formatAnthropicSSE("content_block_delta", {
+        type: "content_block_delta",
+        index: blockIndex,
+        delta: { type: "input_json_delta", partial_json: JSON.stringify(chunk.toolCall.args) },
+      });
+      yield formatAnthropicSSE("content_block_stop", {
+        type: "content_block_stop",
+        index: blockIndex,
+      });
+    } else if (chunk.type === "done") {
+      const stop = closeBlock();
+      if (stop) yield stop;
+      yield formatAnthropicSSE("message_delta", {
+        type: "message_delta",
+        delta: {
+          stop_reason: toStopReason(chunk.finishReason, hasToolUse),
+          stop_sequence: null,
+        },
+        usage: {
+          input_tokens: inputTokens - cachedTokens,
+          output_tokens: outputTokens,
+          ...(cachedTokens ? { cache_read_input_tokens: cachedTokens } : {}),
+        },
+      });
+      yield formatAnthropicSSE("message_stop", { type: "message_stop" });
+      return;
+    } else if (chunk.type === "error") {
+      yield formatAnthropicSSE("error", {
+        type: "error",
+        error: { type: "api_error", message: chunk.error || "Unknown error" },
+      });
+      return;
+    }
+  }
+}
@@ -1,12 +1,12 @@
 /**
  * OAuth authentication CLI for Antigravity
- * Run with: bun run auth
+ * Run with: bun run auth [list | remove <email>]
  */
 
 import { createServer } from "http";
 import { createAuthorizationUrl, exchangeCodeForTokens } from "./oauth";
 import { client } from "./client";
-import { clearTokens, hasStoredTokens } from "./storage";
+import { activeCooldowns } from "./storage";
 
 const CALLBACK_PORT = 51121;
 
@@ -107,6 +107,25 @@ async function waitForCallback(): Promise<{ code: string; state: string }> {
   });
 }
 
+function printAccounts(): void {
+  const accounts = client.getAccounts();
+
+  if (accounts.length === 0) {
+    console.log("   No accounts in the pool.");
+  }
+
+  for (const account of accounts) {
+    const cooldowns = Object.entries(activeCooldowns(account));
+    const limited = cooldowns.length > 0 ? ` (rate limited for ${cooldowns.length} model(s))` : "";
+    console.log(`   • ${account.email || "Unknown"} [${account.projectId}]${limited}`);
+
+    for (const [model, until] of cooldowns) {
+      console.log(`     ${model} rate limited until ${new Date(until).toLocaleTimeString()}`);
+    }
+  }
+  console.log("");
+}
+
 async function main() {
   console.log(`
 ╔════════════════════════════════════════════════════════════════╗
@@ -114,15 +133,32 @@ async function main() {
 ╚════════════════════════════════════════════════════════════════╝
 `);
 
-  // Check for existing tokens
-  if (await hasStoredTokens()) {
-    await client.initialize();
-    const tokens = client.getTokens();
+  await client.initialize();
+  const accounts = client.getAccounts();
+  const [command, arg] = process.argv.slice(2);
 
-    console.log(`ℹ️  Found existing authentication:`);
-    console.log(`   Email: ${tokens?.email || "Unknown"}`);
-    console.log(`   Project: ${tokens?.projectId || "Unknown"}`);
-    console.log("");
+  if (command === "list") {
+    printAccounts();
+    process.exit(0);
+  }
+
+  if (command === "remove") {
+    if (!arg) {
+      console.error("Usage: bun run auth remove <email>");
+      process.exit(1);
+    }
+    if (await client.removeAccount(arg)) {
+      console.log(`✅ Removed ${arg} from the account pool.`);
+      process.exit(0);
+    }
+    console.error(`❌ No account found for ${arg}.`);
+    process.exit(1);
+  }
+
+  // Check for existing accounts
+  if (accounts.length > 0) {
+    console.log(`ℹ️  Found ${accounts.length} existing account(s):`);
+    printAccounts();
 
     const readline = await import("readline");
     const rl = readline.createInterface({
@@ -131,7 +167,7 @@ async function main() {
     });
 
     const answer = await new Promise<string>((resolve) => {
-      rl.question("Do you want to re-authenticate? (y/N): ", resolve);
+      rl.question("Do you want to add another account to the pool? (y/N): ", resolve);
     });
     rl.close();
 
@@ -139,9 +175,7 @@ async function main() {
       console.log("\n✅ Using existing authentication.");
       process.exit(0);
     }
-
-    console.log("\n🔄 Clearing existing tokens...");
-    await clearTokens();
+    console.log("");
   }
 
   // Create authorization URL
@@ -168,8 +202,8 @@ async function main() {
     // Exchange code for tokens
     const tokens = await exchangeCodeForTokens(code, returnedState);
 
-    // Save tokens
-    await client.setTokens(tokens);
+    // Add to the account pool
+    await client.addAccount(tokens);
 
     console.log(`
 ╔════════════════════════════════════════════════════════════════╗
@@ -177,6 +211,7 @@ async function main() {
 ╠════════════════════════════════════════════════════════════════╣
 ║  Email:     ${(tokens.email || "Unknown").padEnd(48)}║
 ║  Project:   ${tokens.projectId.padEnd(48)}║
+║  Accounts:  ${String(client.getAccounts().length).padEnd(48)}║
 ╠════════════════════════════════════════════════════════════════╣
 ║  You can now start the server with: bun start                  ║
 ╚════════════════════════════════════════════════════════════════╝
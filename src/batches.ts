@@ -0,0 +1,776 @@
+/**
+ * OpenAI Batch API: a persistent job queue processed by a background worker
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import { AntigravityApiError, client, parseRetryDelay } from "./client";
+import {
+  convertAntigravityToOpenAI,
+  convertOpenAIToAntigravity,
+  findInvalidParameter,
+  findUnsupportedParameter,
+  type OpenAIChatRequest,
+} from "./converter";
+import { createFile, readFileContent } from "./files";
+import { findKey, isModelAllowed, type ApiKey } from "./keystore";
+import { MediaError, resolveMediaInputs } from "./media";
+import { AVAILABLE_MODELS } from "./models";
+import { checkRateLimit } from "./ratelimit";
+import { CONFIG_DIR } from "./storage";
+import { ContextLengthError, DEFAULT_TRUNCATION, fitContext } from "./tokens";
+import { tokensFromResponse, trackUsage } from "./usage";
+
+const BATCHES_DB = join(CONFIG_DIR, "batches.db");
+
+// Requests processed at once across all batches
+const CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 4;
+
+// Largest number of requests in one input file
+const MAX_REQUESTS = 50000;
+
+const COMPLETION_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Backoff before retrying a request that hit an upstream quota without saying
+// when it resets, doubling with each attempt
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+// Endpoints a batch may target
+export const BATCH_ENDPOINTS = ["/v1/chat/completions"];
+
+export type BatchStatus =
+  | "validating"
+  | "failed"
+  | "in_progress"
+  | "finalizing"
+  | "completed"
+  | "expired"
+  | "cancelling"
+  | "cancelled";
+
+type RequestStatus = "pending" | "running" | "completed" | "failed" | "cancelled" | "expired";
+
+/**
+ * An input line that can't be processed, reported on a failed batch
+ */
+export interface BatchError {
+  code: string;
+  message: string;
+  param: string | null;
+  line: number | null;
+}
+
+/**
+ * A batch in OpenAI's batch object format
+ */
+export interface BatchObject {
+  id: string;
+  object: "batch";
+  endpoint: string;
+  errors: { object: "list"; data: BatchError[] } | null;
+  input_file_id: string;
+  completion_window: string;
+  status: BatchStatus;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  created_at: number;
+  in_progress_at: number | null;
+  expires_at: number;
+  finalizing_at: number | null;
+  completed_at: number | null;
+  failed_at: number | null;
+  expired_at: number | null;
+  cancelling_at: number | null;
+  cancelled_at: number | null;
+  request_counts: { total: number; completed: number; failed: number };
+  metadata: Record<string, string> | null;
+}
+
+interface BatchRow {
+  id: string;
+  owner: string;
+  endpoint: string;
+  input_file_id: string;
+  completion_window: string;
+  status: BatchStatus;
+  errors: string | null;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  metadata: string | null;
+  created_at: number;
+  in_progress_at: number | null;
+  expires_at: number;
+  finalizing_at: number | null;
+  completed_at: number | null;
+  failed_at: number | null;
+  expired_at: number | null;
+  cancelling_at: number | null;
+  cancelled_at: number | null;
+}
+
+interface RequestRow {
+  batch_id: string;
+  line: number;
+  custom_id: string;
+  body: string;
+  status: RequestStatus;
+  status_code: number | null;
+  response: string | null;
+  attempts: number;
+  // Epoch ms before which a requeued request isn't run again
+  retry_at: number | null;
+}
+
+/**
+ * A request's outcome, or when to run it again if it was rate limited
+ */
+interface RequestResult {
+  statusCode: number;
+  body: unknown;
+  retryAfter?: number;
+}
+
+let db: Database | null = null;
+
+/**
+ * Open the batch database, creating the schema on first use
+ */
+function getDb(): Database {
+  if (db) return db;
+
+  mkdirSync(CONFIG_DIR, { recursive: true });
+  db = new Database(BATCHES_DB, { create: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(`
+    CREATE TABLE IF NOT EXISTS batches (
+      id TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      endpoint TEXT NOT NULL,
+      input_file_id TEXT NOT NULL,
+      completion_window TEXT NOT NULL,
+      status TEXT NOT NULL,
+      errors TEXT,
+      output_file_id TEXT,
+      error_file_id TEXT,
+      metadata TEXT,
+      created_at INTEGER NOT NULL,
+      in_progress_at INTEGER,
+      expires_at INTEGER NOT NULL,
+      finalizing_at INTEGER,
+      completed_at INTEGER,
+      failed_at INTEGER,
+      expired_at INTEGER,
+      cancelling_at INTEGER,
+      cancelled_at INTEGER
+    )
+  `);
+  db.run(`
+    CREATE TABLE IF NOT EXISTS batch_requests (
+      batch_id TEXT NOT NULL,
+      line INTEGER NOT NULL,
+      custom_id TEXT NOT NULL,
+      body TEXT NOT NULL,
+      status TEXT NOT NULL,
+      status_code INTEGER,
+      response TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      retry_at INTEGER,
+      PRIMARY KEY (batch_id, line)
+    )
+  `);
+
+  // Databases created before requests could be requeued lack these columns
+  const columns = db.query("PRAGMA table_info(batch_requests)").all() as { name: string }[];
+  if (!columns.some((c) => c.name === "retry_at")) {
+    db.run("ALTER TABLE batch_requests ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0");
+    db.run("ALTER TABLE batch_requests ADD COLUMN retry_at INTEGER");
+  }
+  db.run("CREATE INDEX IF NOT EXISTS batch_requests_status ON batch_requests (status)");
+
+  return db;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Owner id used to scope batches to the API key that created them
+ */
+function ownerOf(apiKey: ApiKey | null): string {
+  return apiKey?.id || "anonymous";
+}
+
+/**
+ * The key a batch runs as, or null for batches created without one
+ */
+async function keyOf(batch: BatchRow): Promise<ApiKey | null> {
+  return batch.owner === "anonymous" ? null : findKey(batch.owner);
+}
+
+function getRow(id: string): BatchRow | null {
+  return getDb().query("SELECT * FROM batches WHERE id = ?").get(id) as BatchRow | null;
+}
+
+/**
+ * Convert a stored batch to OpenAI's format, counting its requests
+ */
+function toBatchObject(row: BatchRow): BatchObject {
+  const counts = getDb()
+    .query(
+      `SELECT COUNT(*) AS total,
+         COALESCE(SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END), 0) AS completed,
+         COALESCE(SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END), 0) AS failed
+       FROM batch_requests WHERE batch_id = ?`
+    )
+    .get(row.id) as BatchObject["request_counts"];
+
+  return {
+    id: row.id,
+    object: "batch",
+    endpoint: row.endpoint,
+    errors: row.errors ? { object: "list", data: JSON.parse(row.errors) } : null,
+    input_file_id: row.input_file_id,
+    completion_window: row.completion_window,
+    status: row.status,
+    output_file_id: row.output_file_id,
+    error_file_id: row.error_file_id,
+    created_at: row.created_at,
+    in_progress_at: row.in_progress_at,
+    expires_at: row.expires_at,
+    finalizing_at: row.finalizing_at,
+    completed_at: row.completed_at,
+    failed_at: row.failed_at,
+    expired_at: row.expired_at,
+    cancelling_at: row.cancelling_at,
+    cancelled_at: row.cancelled_at,
+    request_counts: counts,
+    metadata: row.metadata ? JSON.parse(row.metadata) : null,
+  };
+}
+
+/**
+ * Queue a batch. The input file is validated by the worker.
+ */
+export function createBatch(
+  inputFileId: string,
+  endpoint: string,
+  completionWindow: string,
+  metadata: Record<string, string> | undefined,
+  apiKey: ApiKey | null
+): BatchObject {
+  const id = `batch_${crypto.randomUUID().replace(/-/g, "")}`;
+  const createdAt = now();
+
+  getDb()
+    .query(
+      `INSERT INTO batches (id, owner, endpoint, input_file_id, completion_window, status,
+         metadata, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, 'validating', ?, ?, ?)`
+    )
+    .run(
+      id,
+      ownerOf(apiKey),
+      endpoint,
+      inputFileId,
+      completionWindow,
+      metadata ? JSON.stringify(metadata) : null,
+      createdAt,
+      createdAt + COMPLETION_WINDOW_SECONDS
+    );
+
+  schedule();
+  return toBatchObject(getRow(id)!);
+}
+
+/**
+ * Get a batch if it exists and belongs to the key
+ */
+export function getBatch(id: string, apiKey: ApiKey | null): BatchObject | null {
+  const row = getRow(id);
+  return row && row.owner === ownerOf(apiKey) ? toBatchObject(row) : null;
+}
+
+/**
+ * List a key's batches, newest first, paginated by batch id
+ */
+export function listBatches(
+  apiKey: ApiKey | null,
+  limit: number,
+  after?: string
+): { data: BatchObject[]; has_more: boolean } {
+  const rows = getDb()
+    .query(
+      `SELECT * FROM batches WHERE owner = ?1
+         AND (?2 IS NULL OR rowid < (SELECT rowid FROM batches WHERE id = ?2))
+       ORDER BY rowid DESC LIMIT ?3`
+    )
+    .all(ownerOf(apiKey), after ?? null, limit + 1) as BatchRow[];
+
+  return { data: rows.slice(0, limit).map(toBatchObject), has_more: rows.length > limit };
+}
+
+/**
+ * Cancel a batch. Requests already running finish; the rest are skipped.
+ */
+export function cancelBatch(id: string): BatchObject {
+  const database = getDb();
+  database.transaction(() => {
+    database
+      .query("UPDATE batches SET status = 'cancelling', cancelling_at = ? WHERE id = ?")
+      .run(now(), id);
+    database
+      .query("UPDATE batch_requests SET status = 'cancelled' WHERE batch_id = ? AND status = 'pending'")
+      .run(id);
+  })();
+
+  schedule();
+  return toBatchObject(getRow(id)!);
+}
+
+/**
+ * Parse and check a batch's input file, queueing its requests
+ */
+async function validateBatch(batch: BatchRow): Promise<void> {
+  const database = getDb();
+  const errors: BatchError[] = [];
+  const requests: Array<{ line: number; customId: string; body: string }> = [];
+
+  const input = await readFileContent(batch.input_file_id, await keyOf(batch));
+  if (!input) {
+    errors.push({
+      code: "file_not_found",
+      message: `No such File object: ${batch.input_file_id}`,
+      param: "input_file_id",
+      line: null,
+    });
+  } else {
+    const lines = input.data.toString("utf-8").split("\n");
+    const customIds = new Set<string>();
+
+    for (const [i, text] of lines.entries()) {
+      if (!text.trim()) continue;
+      const line = i + 1;
+
+      let entry: { custom_id?: unknown; method?: unknown; url?: unknown; body?: unknown };
+      try {
+        entry = JSON.parse(text);
+      } catch {
+        errors.push({ code: "invalid_json_line", message: "This line is not valid JSON.", param: null, line });
+        continue;
+      }
+
+      if (typeof entry.custom_id !== "string" || !entry.custom_id) {
+        errors.push({ code: "missing_required_parameter", message: "custom_id is required.", param: "custom_id", line });
+      } else if (customIds.has(entry.custom_id)) {
+        errors.push({
+          code: "duplicate_custom_id",
+          message: `The custom_id '${entry.custom_id}' is used more than once.`,
+          param: "custom_id",
+          line,
+        });
+      } else if (entry.method !== "POST") {
+        errors.push({ code: "invalid_method", message: "method must be 'POST'.", param: "method", line });
+      } else if (entry.url !== batch.endpoint) {
+        errors.push({
+          code: "mismatched_url",
+          message: `url must match the batch endpoint '${batch.endpoint}'.`,
+          param: "url",
+          line,
+        });
+      } else if (typeof entry.body !== "object" || entry.body === null || Array.isArray(entry.body)) {
+        errors.push({ code: "invalid_request", message: "body must be an object.", param: "body", line });
+      } else {
+        customIds.add(entry.custom_id);
+        requests.push({ line, customId: entry.custom_id, body: JSON.stringify(entry.body) });
+      }
+    }
+
+    if (errors.length === 0 && requests.length === 0) {
+      errors.push({ code: "empty_file", message: "The input file contains no requests.", param: null, line: null });
+    } else if (requests.length > MAX_REQUESTS) {
+      errors.push({
+        code: "too_many_requests",
+        message: `A batch may contain at most ${MAX_REQUESTS} requests.`,
+        param: null,
+        line: null,
+      });
+    }
+  }
+
+  database.transaction(() => {
+    if (errors.length > 0) {
+      database
+        .query("UPDATE batches SET status = 'failed', failed_at = ?, errors = ? WHERE id = ?")
+        .run(now(), JSON.stringify(errors), batch.id);
+      return;
+    }
+
+    // Requests of a batch cancelled while it was validating never run
+    const cancelled = getRow(batch.id)?.status === "cancelling";
+
+    // A batch interrupted mid-validation by a restart is validated again from scratch
+    database.query("DELETE FROM batch_requests WHERE batch_id = ?").run(batch.id);
+    const insert = database.query(
+      "INSERT INTO batch_requests (batch_id, line, custom_id, body, status) VALUES (?, ?, ?, ?, ?)"
+    );
+    for (const request of requests) {
+      insert.run(batch.id, request.line, request.customId, request.body, cancelled ? "cancelled" : "pending");
+    }
+
+    if (!cancelled) {
+      database
+        .query("UPDATE batches SET status = 'in_progress', in_progress_at = ? WHERE id = ?")
+        .run(now(), batch.id);
+    }
+  })();
+}
+
+/**
+ * Error response body in OpenAI's format
+ */
+function errorBody(message: string, type: string, code: string, param?: string) {
+  return { error: { message, type, ...(param ? { param } : {}), code } };
+}
+
+/**
+ * Run one chat completion request, returning its HTTP status and body. A
+ * request held back by the key's rate limits or an upstream quota comes back
+ * with `retryAfter` instead of failing.
+ */
+async function executeRequest(
+  request: OpenAIChatRequest,
+  apiKey: ApiKey | null,
+  attempts: number
+): Promise<RequestResult> {
+  if (!AVAILABLE_MODELS[request.model]) {
+    return {
+      statusCode: 400,
+      body: errorBody(`Model '${request.model}' is not available.`, "invalid_request_error", "model_not_found", "model"),
+    };
+  }
+  if (!isModelAllowed(apiKey, request.model)) {
+    return {
+      statusCode: 403,
+      body: errorBody(
+        `This API key does not have access to model '${request.model}'.`,
+        "invalid_request_error",
+        "model_not_allowed",
+        "model"
+      ),
+    };
+  }
+
+  // Batch requests always complete in one response
+  request.stream = false;
+
+  const invalid = findInvalidParameter(request);
+  if (invalid) {
+    return {
+      statusCode: 400,
+      body: errorBody(invalid.message, "invalid_request_error", "invalid_parameter", invalid.param),
+    };
+  }
+
+  const unsupported = findUnsupportedParameter(request);
+  if (unsupported) {
+    return {
+      statusCode: 400,
+      body: errorBody(unsupported.message, "invalid_request_error", "unsupported_parameter", unsupported.param),
+    };
+  }
+
+  if (apiKey) {
+    const rateLimit = checkRateLimit(apiKey);
+    if (!rateLimit.allowed) {
+      const limit = rateLimit.reason === "tokens" ? "tokens per day" : "requests per minute";
+      return {
+        statusCode: 429,
+        body: errorBody(`Rate limit reached for ${limit}.`, "rate_limit_error", "rate_limit_exceeded"),
+        retryAfter: rateLimit.retryAfter ?? RETRY_BASE_DELAY_MS,
+      };
+    }
+  }
+
+  try {
+    await resolveMediaInputs(request.messages, apiKey);
+  } catch (error) {
+    if (!(error instanceof MediaError)) throw error;
+    return { statusCode: 400, body: errorBody(error.message, "invalid_request_error", error.code, error.param) };
+  }
+
+  const antigravityRequest = convertOpenAIToAntigravity(request);
+  try {
+    await fitContext(request.model, antigravityRequest, request.truncation ?? DEFAULT_TRUNCATION);
+  } catch (error) {
+    if (!(error instanceof ContextLengthError)) throw error;
+    return {
+      statusCode: 400,
+      body: errorBody(error.message, "invalid_request_error", "context_length_exceeded", "messages"),
+    };
+  }
+
+  const usage = trackUsage(apiKey, "batches", request.model);
+  try {
+    const response = await client.generateContent(request.model, antigravityRequest);
+    usage.finish(tokensFromResponse(response), "success");
+    return {
+      statusCode: 200,
+      body: convertAntigravityToOpenAI(
+        response as Parameters<typeof convertAntigravityToOpenAI>[0],
+        request.model,
+        undefined,
+        request.include_reasoning ?? true
+      ),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    usage.finish(undefined, "error", message);
+    return {
+      statusCode: error instanceof AntigravityApiError ? error.status : 500,
+      body: errorBody(message, "api_error", "internal_error"),
+      ...(error instanceof AntigravityApiError && error.isQuotaError
+        ? {
+          retryAfter:
+            parseRetryDelay(error.body) ?? Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempts),
+        }
+        : {}),
+    };
+  }
+}
+
+/**
+ * Process a claimed request and store its result, or put it back in the
+ * queue if it was rate limited
+ */
+async function runRequest(request: RequestRow): Promise<void> {
+  const batch = getRow(request.batch_id)!;
+  const apiKey = await keyOf(batch);
+
+  let result: RequestResult;
+  if (!apiKey && batch.owner !== "anonymous") {
+    result = {
+      statusCode: 401,
+      body: errorBody("The API key that created this batch has been revoked.", "invalid_request_error", "invalid_api_key"),
+    };
+  } else {
+    try {
+      result = await executeRequest(JSON.parse(request.body) as OpenAIChatRequest, apiKey, request.attempts);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      result = { statusCode: 500, body: errorBody(message, "api_error", "internal_error") };
+    }
+  }
+
+  if (result.retryAfter !== undefined) {
+    // Stays pending until it runs or the batch expires
+    getDb()
+      .query(
+        "UPDATE batch_requests SET status = 'pending', attempts = attempts + 1, retry_at = ? WHERE batch_id = ? AND line = ?"
+      )
+      .run(Date.now() + result.retryAfter, request.batch_id, request.line);
+    setTimeout(schedule, result.retryAfter).unref();
+    return;
+  }
+
+  getDb()
+    .query("UPDATE batch_requests SET status = ?, status_code = ?, response = ? WHERE batch_id = ? AND line = ?")
+    .run(
+      result.statusCode === 200 ? "completed" : "failed",
+      result.statusCode,
+      JSON.stringify(result.body),
+      request.batch_id,
+      request.line
+    );
+}
+
+/**
+ * Write a finished batch's output and error files and mark it done
+ */
+async function finalizeBatch(batch: BatchRow): Promise<void> {
+  const database = getDb();
+  const requests = database
+    .query("SELECT * FROM batch_requests WHERE batch_id = ? ORDER BY line")
+    .all(batch.id) as RequestRow[];
+
+  const finalStatus: BatchStatus =
+    batch.status === "cancelling"
+      ? "cancelled"
+      : requests.some((r) => r.status === "expired")
+        ? "expired"
+        : "completed";
+
+  if (finalStatus === "completed" && batch.status !== "finalizing") {
+    database
+      .query("UPDATE batches SET status = 'finalizing', finalizing_at = ? WHERE id = ?")
+      .run(now(), batch.id);
+  }
+
+  const output: string[] = [];
+  const errors: string[] = [];
+
+  for (const request of requests) {
+    const line = {
+      id: `batch_req_${crypto.randomUUID().replace(/-/g, "")}`,
+      custom_id: request.custom_id,
+      response: request.response
+        ? {
+          status_code: request.status_code,
+          request_id: `req_${crypto.randomUUID().replace(/-/g, "")}`,
+          body: JSON.parse(request.response),
+        }
+        : null,
+      error:
+        request.status === "cancelled"
+          ? { code: "batch_cancelled", message: "This request was not run because the batch was cancelled." }
+          : request.status === "expired"
+            ? { code: "batch_expired", message: "This request could not be run before the batch expired." }
+            : null,
+    };
+
+    (request.status === "completed" ? output : errors).push(JSON.stringify(line));
+  }
+
+  const apiKey = await keyOf(batch);
+  const writeLines = async (lines: string[], name: string) =>
+    lines.length > 0
+      ? (
+        await createFile(
+          new TextEncoder().encode(lines.join("\n") + "\n"),
+          `${batch.id}_${name}.jsonl`,
+          "batch_output",
+          "application/jsonl",
+          apiKey
+        )
+      ).id
+      : null;
+
+  const outputFileId = await writeLines(output, "output");
+  const errorFileId = await writeLines(errors, "error");
+
+  database
+    .query(
+      `UPDATE batches SET status = ?, ${finalStatus}_at = ?, output_file_id = ?, error_file_id = ? WHERE id = ?`
+    )
+    .run(finalStatus, now(), outputFileId, errorFileId, batch.id);
+}
+
+/**
+ * Skip the remaining requests of batches past their completion window
+ */
+function expireBatches(): void {
+  getDb()
+    .query(
+      `UPDATE batch_requests SET status = 'expired' WHERE status = 'pending' AND batch_id IN
+         (SELECT id FROM batches WHERE status = 'in_progress' AND expires_at <= ?)`
+    )
+    .run(now());
+}
+
+/**
+ * Claim the oldest pending request of a running batch that isn't waiting out
+ * a rate limit
+ */
+function claimRequest(): RequestRow | null {
+  const database = getDb();
+  return database.transaction(() => {
+    const request = database
+      .query(
+        `SELECT r.* FROM batch_requests r JOIN batches b ON b.id = r.batch_id
+         WHERE r.status = 'pending' AND b.status = 'in_progress'
+           AND (r.retry_at IS NULL OR r.retry_at <= ?)
+         ORDER BY b.rowid, r.line LIMIT 1`
+      )
+      .get(Date.now()) as RequestRow | null;
+
+    if (request) {
+      database
+        .query("UPDATE batch_requests SET status = 'running' WHERE batch_id = ? AND line = ?")
+        .run(request.batch_id, request.line);
+    }
+    return request;
+  })();
+}
+
+let running = 0;
+let pumping = false;
+let rerun = false;
+
+/**
+ * Advance every batch: validate new ones, finalize finished ones and start
+ * pending requests up to the concurrency limit
+ */
+async function pump(): Promise<void> {
+  const database = getDb();
+
+  const validating = database.query("SELECT * FROM batches WHERE status = 'validating'").all() as BatchRow[];
+  for (const batch of validating) {
+    await validateBatch(batch);
+  }
+
+  expireBatches();
+
+  const finished = database
+    .query(
+      `SELECT * FROM batches b WHERE status IN ('in_progress', 'finalizing', 'cancelling')
+         AND NOT EXISTS (SELECT 1 FROM batch_requests r
+           WHERE r.batch_id = b.id AND r.status IN ('pending', 'running'))`
+    )
+    .all() as BatchRow[];
+  for (const batch of finished) {
+    await finalizeBatch(batch);
+  }
+
+  while (running < CONCURRENCY) {
+    const request = claimRequest();
+    if (!request) break;
+
+    running++;
+    runRequest(request)
+      .catch((error) => {
+        console.error("[Batches] Request failed:", error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        running--;
+        schedule();
+      });
+  }
+}
+
+/**
+ * Run the worker soon, coalescing calls made while it is already running
+ */
+function schedule(): void {
+  if (pumping) {
+    rerun = true;
+    return;
+  }
+
+  pumping = true;
+  (async () => {
+    do {
+      rerun = false;
+      await pump();
+    } while (rerun);
+  })()
+    .catch((error) => {
+      console.error("[Batches] Worker error:", error instanceof Error ? error.message : error);
+    })
+    .finally(() => {
+      pumping = false;
+    });
+}
+
+/**
+ * Start the background worker, resuming batches left unfinished by a restart
+ */
+export function startBatchWorker(): void {
+  // Requests that were running when the server stopped run again
+  getDb().run("UPDATE batch_requests SET status = 'pending' WHERE status = 'running'");
+
+  // Picks up expired batches even when nothing else is happening
+  setInterval(schedule, 60 * 1000).unref();
+  schedule();
+}
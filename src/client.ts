@@ -6,11 +6,13 @@ import {
   ANTIGRAVITY_ENDPOINTS,
   ANTIGRAVITY_HEADERS,
   ANTIGRAVITY_DEFAULT_PROJECT_ID,
-  AVAILABLE_MODELS,
-  type ModelId,
 } from "./constants";
+import { getModelStatus } from "./discovery";
+import { AVAILABLE_MODELS, isClaudeModel } from "./models";
 import { refreshAccessToken, isTokenExpired, type AuthTokens } from "./oauth";
-import { saveTokens, loadTokens } from "./storage";
+import { planPromptCache, recordPromptCache, rejectCacheHints, type PromptCachePlan } from "./promptcache";
+import { sanitizeSchema } from "./schema";
+import { activeCooldowns, saveAccounts, loadAccounts, type StoredAccount } from "./storage";
 
 interface GenerateContentRequest {
   contents: Array<{
@@ -48,131 +50,428 @@ interface AntigravityRequest {
 }
 
 export interface StreamChunk {
-  type: "content" | "thinking" | "done" | "error";
+  type: "content" | "thinking" | "tool_call" | "done" | "error";
   content?: string;
   thinking?: string;
+  // Thought signature carried by a thinking, content or tool call part
+  signature?: string;
+  toolCall?: {
+    id?: string;
+    name: string;
+    args: Record<string, unknown>;
+  };
   error?: string;
+  // Upstream HTTP status of an error, if it came from the API
+  status?: number;
+  // Upstream finish reason (such as STOP or MAX_TOKENS), on the done chunk
+  finishReason?: string;
   usage?: {
     promptTokens?: number;
     completionTokens?: number;
+    thinkingTokens?: number;
+    cachedTokens?: number;
     totalTokens?: number;
   };
 }
 
+/**
+ * Error returned by the Antigravity API
+ */
+export class AntigravityApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: string
+  ) {
+    super(`API error ${status}: ${body}`);
+    this.name = "AntigravityApiError";
+  }
+
+  /**
+   * Whether this error means the account is out of quota or rate limited
+   */
+  get isQuotaError(): boolean {
+    return this.status === 429 || this.body.includes("RESOURCE_EXHAUSTED");
+  }
+
+  /**
+   * Whether the request may succeed if retried later
+   */
+  get isRetryable(): boolean {
+    return this.isQuotaError || this.status >= 500;
+  }
+}
+
+/**
+ * Parse a protobuf duration string such as "1h2m3.5s" into milliseconds
+ */
+function parseDuration(duration: string): number | null {
+  const match = duration.match(/^(?:(\d+)h)?(?:(\d+)m(?!s))?(?:([\d.]+)s)?(?:([\d.]+)ms)?$/);
+  if (!match || !match[0]) return null;
+
+  const [, hours, minutes, seconds, millis] = match;
+  return (
+    (Number(hours) || 0) * 3600000 +
+    (Number(minutes) || 0) * 60000 +
+    (Number(seconds) || 0) * 1000 +
+    (Number(millis) || 0)
+  );
+}
+
+/**
+ * Extract the quota reset delay (ms) from a Google API error body
+ */
+export function parseRetryDelay(body: string): number | null {
+  try {
+    const data = JSON.parse(body) as {
+      error?: {
+        details?: Array<{
+          "@type"?: string;
+          retryDelay?: string;
+          metadata?: { quotaResetDelay?: string; quotaResetTimeStamp?: string };
+        }>;
+      };
+    };
+
+    let delay: number | null = null;
+    for (const detail of data.error?.details || []) {
+      const candidates = [
+        detail.retryDelay ? parseDuration(detail.retryDelay) : null,
+        detail.metadata?.quotaResetDelay ? parseDuration(detail.metadata.quotaResetDelay) : null,
+        detail.metadata?.quotaResetTimeStamp
+          ? Date.parse(detail.metadata.quotaResetTimeStamp) - Date.now()
+          : null,
+      ];
+      for (const candidate of candidates) {
+        if (candidate !== null && !Number.isNaN(candidate) && candidate > 0) {
+          delay = Math.max(delay ?? 0, candidate);
+        }
+      }
+    }
+    return delay;
+  } catch {
+    return null;
+  }
+}
+
+export type AccountStrategy = "round-robin" | "least-recently-limited";
+
+// Cooldown applied when a rate limited response carries no reset time. Kept
+// well under RETRY_DEADLINE_MS so that the request can still be retried.
+const DEFAULT_COOLDOWN_MS = 10 * 1000;
+
+/**
+ * Read a non-negative numeric setting from the environment
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && value >= 0 ? value : fallback;
+}
+
+// Claude thinking budgets for each OpenAI reasoning effort, matching the -thinking-* aliases
+const EFFORT_BUDGETS: Record<string, number> = {
+  minimal: 1024,
+  low: 8192,
+  medium: 16384,
+  high: 32768,
+};
+
+// Gemini 3 thinking levels for each OpenAI reasoning effort
+const EFFORT_LEVELS: Record<string, string> = {
+  minimal: "low",
+  low: "low",
+  medium: "high",
+  high: "high",
+};
+
+// Claude's smallest thinking budget, and the output it leaves for the answer
+// when a budget has to be cut to fit the output limit
+const CLAUDE_MIN_THINKING_BUDGET = 1024;
+const CLAUDE_ANSWER_TOKENS = 1024;
+
+// Tool Claude models are made to call in place of a JSON response mode
+const STRUCTURED_OUTPUT_TOOL = "json_response";
+
+/**
+ * Replace structured output tool calls in a response with their arguments as text
+ */
+function unwrapStructuredOutput(response: unknown): unknown {
+  const data = response as {
+    candidates?: Array<{
+      content?: { parts?: Array<{ text?: string; functionCall?: { name: string; args?: unknown } }> };
+    }>;
+  };
+
+  for (const candidate of data?.candidates || []) {
+    const parts = candidate.content?.parts;
+    if (!parts) continue;
+
+    candidate.content!.parts = parts.map((part) =>
+      part.functionCall?.name === STRUCTURED_OUTPUT_TOOL
+        ? { text: JSON.stringify(part.functionCall.args || {}) }
+        : part
+    );
+  }
+
+  return response;
+}
+
+// Retry policy for rate limited and transient upstream errors
+const RETRY_MAX_RETRIES = envNumber("RETRY_MAX_RETRIES", 3);
+const RETRY_BASE_DELAY_MS = envNumber("RETRY_BASE_DELAY_MS", 1000);
+const RETRY_MAX_DELAY_MS = envNumber("RETRY_MAX_DELAY_MS", 30 * 1000);
+const RETRY_DEADLINE_MS = envNumber("RETRY_DEADLINE_MS", 60 * 1000);
+
+/**
+ * Wait before a retry, returning early if the request is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
 /**
  * Antigravity API client
  */
 export class AntigravityClient {
-  private tokens: AuthTokens | null = null;
+  private accounts: StoredAccount[] = [];
+  private nextAccountIndex = 0;
   private initialized = false;
 
+  constructor(
+    private readonly strategy: AccountStrategy =
+      process.env.ACCOUNT_STRATEGY === "least-recently-limited"
+        ? "least-recently-limited"
+        : "round-robin"
+  ) { }
+
   /**
-   * Initialize the client by loading stored tokens
+   * Initialize the client by loading stored accounts
    */
   async initialize(): Promise<boolean> {
     if (this.initialized) return true;
 
-    this.tokens = await loadTokens();
+    this.accounts = await loadAccounts();
     this.initialized = true;
 
-    return this.tokens !== null;
+    return this.accounts.length > 0;
+  }
+
+  /**
+   * Pick up accounts added or removed in the token file by `bun run auth`
+   * since the pool was loaded. Accounts still in the file keep their
+   * in-memory state unless they were signed in again. An empty or unreadable
+   * file is ignored so that a half-written one can't empty the pool.
+   */
+  private async syncAccounts(): Promise<void> {
+    const stored = await loadAccounts();
+    if (stored.length === 0) return;
+
+    this.accounts = stored.map((account) => {
+      const current = this.accounts.find((a) =>
+        account.email ? a.email === account.email : a.refreshToken === account.refreshToken
+      );
+      return current && current.refreshToken === account.refreshToken ? current : account;
+    });
+  }
+
+  /**
+   * Save the pool, merged with the token file so that accounts changed by
+   * another process aren't overwritten
+   */
+  private async persistAccounts(): Promise<void> {
+    await this.syncAccounts();
+    await saveAccounts(this.accounts);
   }
 
   /**
-   * Set tokens directly (used after OAuth flow)
+   * Add an account to the pool, replacing any existing entry for the same email
    */
-  async setTokens(tokens: AuthTokens): Promise<void> {
-    this.tokens = tokens;
-    await saveTokens(tokens);
+  async addAccount(tokens: AuthTokens): Promise<void> {
+    await this.syncAccounts();
+    const existing = this.accounts.findIndex(
+      (a) => (tokens.email && a.email === tokens.email) || a.refreshToken === tokens.refreshToken
+    );
+
+    if (existing === -1) {
+      this.accounts.push(tokens);
+    } else {
+      this.accounts[existing] = tokens;
+    }
+
+    await saveAccounts(this.accounts);
     this.initialized = true;
   }
 
+  /**
+   * Remove an account from the pool by email
+   */
+  async removeAccount(email: string): Promise<boolean> {
+    await this.syncAccounts();
+    const remaining = this.accounts.filter((a) => a.email !== email);
+    if (remaining.length === this.accounts.length) return false;
+
+    this.accounts = remaining;
+    await saveAccounts(this.accounts);
+    return true;
+  }
+
   /**
    * Check if the client has valid tokens
    */
   hasValidTokens(): boolean {
-    return this.tokens !== null;
+    return this.accounts.length > 0;
   }
 
   /**
-   * Get current tokens
+   * Get all accounts in the pool
    */
-  getTokens(): AuthTokens | null {
-    return this.tokens;
+  getAccounts(): readonly StoredAccount[] {
+    return this.accounts;
   }
 
   /**
-   * Ensure we have a valid access token, refreshing if needed
+   * When an account can next be used for a model. Quota is tracked per
+   * model, so an account out of quota for one can still serve others.
    */
-  private async ensureValidToken(): Promise<string> {
-    if (!this.tokens) {
-      throw new Error("Not authenticated. Run 'bun run auth' first.");
+  private availableAt(account: StoredAccount, model: string): number {
+    return account.modelRateLimits?.[model] || 0;
+  }
+
+  /**
+   * Pick the next account usable for a model according to the selection
+   * strategy, or the preferred account if it is usable
+   */
+  private selectAccount(exclude: Set<StoredAccount>, model: string, preferred?: string): StoredAccount | null {
+    const now = Date.now();
+    const available = this.accounts.filter(
+      (a) => !exclude.has(a) && this.availableAt(a, model) <= now
+    );
+    if (available.length === 0) return null;
+
+    const preferredAccount = preferred && available.find((a) => a.email === preferred);
+    if (preferredAccount) return preferredAccount;
+
+    if (this.strategy === "least-recently-limited") {
+      return available.reduce((best, a) =>
+        (a.lastLimitedAt || 0) < (best.lastLimitedAt || 0) ||
+          ((a.lastLimitedAt || 0) === (best.lastLimitedAt || 0) &&
+            (a.lastUsedAt || 0) < (best.lastUsedAt || 0))
+          ? a
+          : best
+      );
     }
 
-    if (isTokenExpired(this.tokens.expiresAt)) {
-      console.log("[AntigravityClient] Refreshing access token...");
-      const refreshed = await refreshAccessToken(this.tokens.refreshToken);
-      this.tokens = {
-        ...this.tokens,
-        accessToken: refreshed.accessToken,
-        expiresAt: refreshed.expiresAt,
-      };
-      await saveTokens(this.tokens);
+    // Round-robin over the whole pool, skipping unavailable accounts
+    for (let i = 0; i < this.accounts.length; i++) {
+      const account = this.accounts[(this.nextAccountIndex + i) % this.accounts.length];
+      if (available.includes(account)) {
+        this.nextAccountIndex = (this.accounts.indexOf(account) + 1) % this.accounts.length;
+        return account;
+      }
     }
 
-    return this.tokens.accessToken;
+    return null;
   }
 
   /**
-   * Get the project ID
+   * Ensure an account has a valid access token, refreshing if needed
    */
-  getProjectId(): string {
-    return this.tokens?.projectId || ANTIGRAVITY_DEFAULT_PROJECT_ID;
+  private async ensureValidToken(account: StoredAccount): Promise<string> {
+    if (isTokenExpired(account.expiresAt)) {
+      console.log(`[AntigravityClient] Refreshing access token for ${account.email || "account"}...`);
+      const refreshed = await refreshAccessToken(account.refreshToken);
+      account.accessToken = refreshed.accessToken;
+      account.expiresAt = refreshed.expiresAt;
+      await this.persistAccounts();
+    }
+
+    return account.accessToken;
   }
 
   /**
-   * Resolve model name to actual Antigravity model
+   * Resolve model name to actual Antigravity model, applying any thinking
+   * effort or budget requested on top of the model's default
    */
-  private resolveModel(modelId: string): {
+  private resolveModel(
+    modelId: string,
+    requested?: { effort?: string; budget?: number }
+  ): {
     actualModel: string;
     thinkingConfig?: {
       thinkingLevel?: string;
       thinkingBudget?: number;
     };
     isClaude: boolean;
+    headers: Record<string, string>;
   } {
-    const modelInfo = AVAILABLE_MODELS[modelId as ModelId];
+    const modelInfo = AVAILABLE_MODELS[modelId];
 
-    // Default to treating as Gemini
-    const isClaude = modelId.toLowerCase().includes("claude");
+    const isClaude = isClaudeModel(modelId);
 
     // Extract thinking config based on model type
     let thinkingConfig: { thinkingLevel?: string; thinkingBudget?: number } | undefined;
 
-    if (modelInfo) {
-      if ("thinkingLevel" in modelInfo) {
-        thinkingConfig = { thinkingLevel: modelInfo.thinkingLevel };
-      } else if ("thinkingBudget" in modelInfo) {
-        thinkingConfig = { thinkingBudget: modelInfo.thinkingBudget };
-      }
+    if (modelInfo?.thinkingLevel) {
+      thinkingConfig = { thinkingLevel: modelInfo.thinkingLevel };
+    } else if (modelInfo?.thinkingBudget) {
+      thinkingConfig = { thinkingBudget: modelInfo.thinkingBudget };
+    }
+
+    // Per-request thinking overrides the model default
+    if (requested?.effort === "none" || requested?.budget === 0) {
+      thinkingConfig = undefined;
+    } else if (requested?.budget !== undefined) {
+      thinkingConfig = { thinkingBudget: requested.budget };
+    } else if (requested?.effort && isClaude) {
+      thinkingConfig = { thinkingBudget: EFFORT_BUDGETS[requested.effort] ?? EFFORT_BUDGETS.medium };
+    } else if (requested?.effort) {
+      thinkingConfig = { thinkingLevel: EFFORT_LEVELS[requested.effort] ?? requested.effort };
     }
 
+    // Send the alias id upstream when one matches the resolved thinking config
+    const baseModel = modelInfo?.baseModel ?? modelId;
+    const alias = Object.values(AVAILABLE_MODELS).find(
+      (m) =>
+        m.baseModel === baseModel &&
+        m.thinkingLevel === thinkingConfig?.thinkingLevel &&
+        m.thinkingBudget === thinkingConfig?.thinkingBudget
+    );
+    const target = alias ?? AVAILABLE_MODELS[baseModel];
+
     return {
-      actualModel: modelId,
+      actualModel: target?.upstream ?? target?.id ?? baseModel,
       thinkingConfig,
       isClaude,
+      headers: modelInfo?.headers ?? {},
     };
   }
 
   /**
-   * Generate content (non-streaming)
+   * Apply model-specific thinking and tool config to a request
    */
-  async generateContent(
+  private prepareRequest(
     model: string,
     request: GenerateContentRequest
-  ): Promise<unknown> {
-    const accessToken = await this.ensureValidToken();
-    const { actualModel, thinkingConfig, isClaude } = this.resolveModel(model);
+  ): ReturnType<AntigravityClient["resolveModel"]> {
+    // Thinking requested by the client (reasoning_effort or a budget) replaces the model default
+    const requestedThinking = request.generationConfig?.thinkingConfig;
+    if (requestedThinking) {
+      delete request.generationConfig!.thinkingConfig;
+    }
+
+    const resolved = this.resolveModel(model, requestedThinking && {
+      effort: requestedThinking.thinkingLevel,
+      budget: requestedThinking.thinkingBudget ?? requestedThinking.thinking_budget,
+    });
+    const { thinkingConfig, isClaude } = resolved;
 
     // Apply thinking config
     if (thinkingConfig) {
@@ -193,236 +492,632 @@ export class AntigravityClient {
           includeThoughts: true,
           thinkingLevel: thinkingConfig.thinkingLevel,
         };
+      } else if (thinkingConfig.thinkingBudget) {
+        request.generationConfig.thinkingConfig = {
+          includeThoughts: true,
+          thinkingBudget: thinkingConfig.thinkingBudget,
+        };
+      }
+    }
+
+    // Keep the completion within the model's output limit, as the backend reports it
+    const maxOutputTokens = getModelStatus(model)?.model.max_output_tokens;
+    if (maxOutputTokens && (request.generationConfig?.maxOutputTokens || 0) > maxOutputTokens) {
+      request.generationConfig!.maxOutputTokens = maxOutputTokens;
+    }
+
+    // Claude rejects thinking budgets that aren't below the output limit, so
+    // cut the budget to fit, or turn thinking off if the limit is too small
+    const claudeThinking = isClaude ? request.generationConfig?.thinkingConfig : undefined;
+    const outputLimit = request.generationConfig?.maxOutputTokens;
+    if (claudeThinking?.thinking_budget && outputLimit && claudeThinking.thinking_budget >= outputLimit) {
+      const budget = outputLimit - CLAUDE_ANSWER_TOKENS;
+      if (budget >= CLAUDE_MIN_THINKING_BUDGET) {
+        claudeThinking.thinking_budget = budget;
+      } else {
+        delete request.generationConfig!.thinkingConfig;
+      }
+    }
+
+    // Structured output. Claude has no JSON response mode, so the schema becomes
+    // a tool the model must call; its arguments are unwrapped back into text.
+    let forceStructuredOutput = false;
+    const generationConfig = request.generationConfig;
+
+    if (generationConfig?.responseMimeType === "application/json") {
+      if (isClaude) {
+        const { responseMimeType: _, responseSchema, ...rest } = generationConfig;
+        // Claude rejects forced tool use while extended thinking is enabled, and
+        // forcing the schema tool would keep the model from calling the client's own tools
+        forceStructuredOutput = !rest.thinkingConfig && !request.tools?.length;
+        request.generationConfig = rest;
+        request.tools = [
+          ...(request.tools || []),
+          {
+            functionDeclarations: [
+              {
+                name: STRUCTURED_OUTPUT_TOOL,
+                description: "Respond to the user with a JSON value matching this schema.",
+                parameters: responseSchema || { type: "object", properties: {} },
+              },
+            ],
+          },
+        ];
+        request.systemInstruction = {
+          parts: [
+            ...(request.systemInstruction?.parts || []),
+            { text: `Give your final answer by calling the ${STRUCTURED_OUTPUT_TOOL} tool.` },
+          ],
+        };
+      } else if (generationConfig.responseSchema) {
+        generationConfig.responseSchema = sanitizeSchema(generationConfig.responseSchema, "gemini");
+      }
+    }
+
+    // Normalize tool parameter schemas for the model family
+    for (const tool of (request.tools || []) as Array<{
+      functionDeclarations?: Array<{ parameters?: unknown }>;
+    }>) {
+      for (const declaration of tool.functionDeclarations || []) {
+        if (declaration.parameters) {
+          declaration.parameters = sanitizeSchema(declaration.parameters, isClaude ? "claude" : "gemini");
+        }
       }
     }
 
     // Configure Claude tool calling mode
-    if (isClaude && request.tools && request.tools.length > 0) {
+    if (forceStructuredOutput) {
+      request.toolConfig = {
+        functionCallingConfig: { mode: "ANY", allowedFunctionNames: [STRUCTURED_OUTPUT_TOOL] },
+      };
+    } else if (isClaude && request.tools && request.tools.length > 0) {
       request.toolConfig = {
         functionCallingConfig: { mode: "VALIDATED" },
       };
     }
 
-    const body: AntigravityRequest = {
-      project: this.getProjectId(),
-      model: actualModel,
+    return resolved;
+  }
+
+  /**
+   * Wrap a request in the Antigravity envelope for the given account
+   */
+  private wrapRequest(
+    account: StoredAccount,
+    model: string,
+    request: GenerateContentRequest
+  ): AntigravityRequest {
+    return {
+      project: account.projectId || ANTIGRAVITY_DEFAULT_PROJECT_ID,
+      model,
       request,
       userAgent: "antigravity",
       requestId: `agent-${crypto.randomUUID()}`,
     };
+  }
+
+  /**
+   * POST to a v1internal method, trying endpoints in order
+   */
+  private async postToEndpoints(
+    accessToken: string,
+    method: string,
+    body: unknown,
+    extraHeaders: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    let lastError: Error | null = null;
 
-    // Try endpoints in order
     for (const endpoint of ANTIGRAVITY_ENDPOINTS) {
       try {
-        const response = await fetch(
-          `${endpoint}/v1internal:generateContent`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${accessToken}`,
-              ...ANTIGRAVITY_HEADERS,
-            },
-            body: JSON.stringify(body),
-          }
-        );
+        const response = await fetch(`${endpoint}/v1internal:${method}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`,
+            ...ANTIGRAVITY_HEADERS,
+            ...extraHeaders,
+          },
+          body: JSON.stringify(body),
+          signal,
+        });
 
         if (response.ok) {
-          const data = await response.json() as { response?: unknown };
-          return data.response || data;
+          return response;
         }
 
+        const errorText = await response.text();
+        lastError = new AntigravityApiError(response.status, errorText);
+
         // Retry on certain errors
         if (response.status === 403 || response.status === 404 || response.status >= 500) {
           continue;
         }
 
         // Return error for other status codes
-        const errorText = await response.text();
-        throw new Error(`API error ${response.status}: ${errorText}`);
+        throw lastError;
       } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
         if (endpoint === ANTIGRAVITY_ENDPOINTS[ANTIGRAVITY_ENDPOINTS.length - 1]) {
-          throw error;
+          throw lastError;
         }
         // Continue to next endpoint
       }
     }
 
-    throw new Error("All Antigravity endpoints failed");
+    throw lastError || new Error("All Antigravity endpoints failed");
   }
 
   /**
-   * Generate content with streaming
+   * POST to a v1internal method using the account pool, failing over to the
+   * next account when one is rate limited or its token can't be refreshed
    */
-  async *streamGenerateContent(
+  private async post(
+    method: string,
     model: string,
-    request: GenerateContentRequest
-  ): AsyncGenerator<StreamChunk> {
-    const accessToken = await this.ensureValidToken();
-    const { actualModel, thinkingConfig, isClaude } = this.resolveModel(model);
+    buildBody: (account: StoredAccount) => unknown,
+    extraHeaders: Record<string, string> = {},
+    cache: PromptCachePlan | null = null,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (this.accounts.length === 0) {
+      throw new Error("Not authenticated. Run 'bun run auth' first.");
+    }
 
-    // Apply thinking config
-    if (thinkingConfig) {
-      request.generationConfig = request.generationConfig || {};
+    const tried = new Set<StoredAccount>();
+    let lastError: Error | null = null;
 
-      if (isClaude && thinkingConfig.thinkingBudget) {
-        request.generationConfig.thinkingConfig = {
-          include_thoughts: true,
-          thinking_budget: thinkingConfig.thinkingBudget,
-        };
-        request.generationConfig.maxOutputTokens = Math.max(
-          request.generationConfig.maxOutputTokens || 0,
-          65536
+    // Prefer the account whose backend cache holds the prompt prefix
+    for (
+      let account = this.selectAccount(tried, model, cache?.account);
+      account;
+      account = this.selectAccount(tried, model, cache?.account)
+    ) {
+      tried.add(account);
+      account.lastUsedAt = Date.now();
+
+      let accessToken: string;
+      try {
+        accessToken = await this.ensureValidToken(account);
+      } catch (error) {
+        console.error(
+          `[AntigravityClient] Token refresh failed for ${account.email || "account"}:`,
+          error instanceof Error ? error.message : error
         );
-      } else if (thinkingConfig.thinkingLevel) {
-        request.generationConfig.thinkingConfig = {
-          includeThoughts: true,
-          thinkingLevel: thinkingConfig.thinkingLevel,
-        };
+        lastError = error instanceof Error ? error : new Error(String(error));
+        continue;
+      }
+
+      try {
+        const response = await this.postToEndpoints(
+          accessToken,
+          method,
+          buildBody(account),
+          extraHeaders,
+          signal
+        );
+        if (cache && account.email) {
+          recordPromptCache(cache, account.email);
+        }
+        return response;
+      } catch (error) {
+        // Resend without cache breakpoints if the backend doesn't accept them
+        if (
+          cache?.hinted &&
+          error instanceof AntigravityApiError &&
+          error.status === 400 &&
+          error.body.includes("cache_control")
+        ) {
+          rejectCacheHints(cache);
+          tried.delete(account);
+          continue;
+        }
+
+        if (!(error instanceof AntigravityApiError) || !error.isQuotaError) {
+          throw error;
+        }
+
+        // Put the limited account on cooldown for this model until its quota
+        // resets, dropping cooldowns that have passed
+        const now = Date.now();
+        const cooldown = parseRetryDelay(error.body) ?? DEFAULT_COOLDOWN_MS;
+        account.lastLimitedAt = now;
+        account.modelRateLimits = activeCooldowns(account, now);
+        account.modelRateLimits[model] = now + cooldown;
+        await this.persistAccounts();
+
+        console.log(
+          `[AntigravityClient] ${account.email || "Account"} rate limited for ${model}, cooling down for ${Math.ceil(cooldown / 1000)}s`
+        );
+        lastError = error;
       }
     }
 
-    // Configure Claude tool calling mode
-    if (isClaude && request.tools && request.tools.length > 0) {
-      request.toolConfig = {
-        functionCallingConfig: { mode: "VALIDATED" },
+    if (lastError) {
+      throw lastError;
+    }
+
+    // Report the pool's next reset the same way Google reports retry delays
+    const resetIn = Math.min(...this.accounts.map((a) => this.availableAt(a, model) - Date.now()));
+    throw new AntigravityApiError(
+      429,
+      JSON.stringify({
+        error: {
+          code: 429,
+          message: "All accounts are rate limited",
+          status: "RESOURCE_EXHAUSTED",
+          details: [
+            {
+              "@type": "type.googleapis.com/google.rpc.RetryInfo",
+              retryDelay: `${Math.max(0, resetIn) / 1000}s`,
+            },
+          ],
+        },
+      })
+    );
+  }
+
+  /**
+   * Delay before retrying a failed request, or null if it should not be retried
+   */
+  private retryDelay(error: unknown, model: string, attempt: number, deadline: number): number | null {
+    if (!(error instanceof AntigravityApiError) || !error.isRetryable) return null;
+    if (attempt >= RETRY_MAX_RETRIES) return null;
+
+    // Rate limited accounts are on cooldown until their reset, so wait for the
+    // first one to come back; otherwise honour RetryInfo or back off exponentially
+    const now = Date.now();
+    const serverDelay = error.isQuotaError
+      ? Math.min(...this.accounts.map((a) => Math.max(0, this.availableAt(a, model) - now)))
+      : parseRetryDelay(error.body);
+
+    const delay = serverDelay
+      ? serverDelay + Math.random() * serverDelay * 0.1
+      : Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+    if (now + delay > deadline) return null;
+
+    console.log(
+      `[AntigravityClient] Upstream error ${error.status}, retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1}/${RETRY_MAX_RETRIES})`
+    );
+    return delay;
+  }
+
+  /**
+   * Run a request for a model, retrying rate limited and transient failures
+   * until `signal` aborts
+   */
+  private async withRetry<T>(model: string, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const deadline = Date.now() + RETRY_DEADLINE_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const delay = signal?.aborted ? null : this.retryDelay(error, model, attempt, deadline);
+        if (delay === null) throw error;
+        await sleep(delay, signal);
+        if (signal?.aborted) throw error;
+      }
+    }
+  }
+
+  /**
+   * Read an SSE response, yielding each unwrapped response payload
+   */
+  private async *readSSE(response: Response): AsyncGenerator<unknown> {
+    if (!response.body) {
+      throw new Error("No response body");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+
+        const jsonStr = line.slice(5).trim();
+        if (!jsonStr) continue;
+
+        try {
+          const data = JSON.parse(jsonStr) as { response?: unknown };
+          yield data.response || data;
+        } catch {
+          // Skip malformed JSON
+        }
+      }
+    }
+  }
+
+  /**
+   * Convert an Antigravity response payload into stream chunks
+   */
+  private toStreamChunks(payload: unknown): StreamChunk[] {
+    const data = payload as {
+      candidates?: Array<{
+        content?: {
+          parts?: Array<{
+            text?: string;
+            thought?: boolean;
+            type?: string;
+            thinking?: string;
+            thoughtSignature?: string;
+            functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+          }>;
+        };
+      }>;
+      usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        thoughtsTokenCount?: number;
+        cachedContentTokenCount?: number;
+        totalTokenCount?: number;
       };
+    };
+
+    if (!data.candidates?.[0]?.content?.parts) return [];
+
+    const chunks: StreamChunk[] = [];
+
+    for (const part of data.candidates[0].content.parts) {
+      if (part.thought === true || part.type === "thinking") {
+        chunks.push({
+          type: "thinking",
+          thinking: part.text || part.thinking || "",
+          ...(part.thoughtSignature ? { signature: part.thoughtSignature } : {}),
+        });
+      } else if (part.functionCall?.name === STRUCTURED_OUTPUT_TOOL) {
+        chunks.push({
+          type: "content",
+          content: JSON.stringify(part.functionCall.args || {}),
+        });
+      } else if (part.functionCall) {
+        chunks.push({
+          type: "tool_call",
+          toolCall: {
+            ...(part.functionCall.id ? { id: part.functionCall.id } : {}),
+            name: part.functionCall.name,
+            args: part.functionCall.args || {},
+          },
+          ...(part.thoughtSignature ? { signature: part.thoughtSignature } : {}),
+        });
+      } else if (part.text || part.thoughtSignature) {
+        chunks.push({
+          type: "content",
+          content: part.text || "",
+          ...(part.thoughtSignature ? { signature: part.thoughtSignature } : {}),
+        });
+      }
+    }
+
+    // Include usage if available
+    if (data.usageMetadata) {
+      chunks.push({
+        type: "content",
+        usage: {
+          promptTokens: data.usageMetadata.promptTokenCount,
+          completionTokens: data.usageMetadata.candidatesTokenCount,
+          thinkingTokens: data.usageMetadata.thoughtsTokenCount,
+          cachedTokens: data.usageMetadata.cachedContentTokenCount,
+          totalTokens: data.usageMetadata.totalTokenCount,
+        },
+      });
     }
 
+    return chunks;
+  }
+
+  /**
+   * Generate content (non-streaming)
+   */
+  async generateContent(
+    model: string,
+    request: GenerateContentRequest,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const { actualModel, isClaude, headers } = this.prepareRequest(model, request);
+    const cache = planPromptCache(request, isClaude);
+
+    return this.withRetry(actualModel, async () => {
+      const response = await this.post(
+        "generateContent",
+        actualModel,
+        (account) => this.wrapRequest(account, actualModel, request),
+        headers,
+        cache,
+        signal
+      );
+      const data = await response.json() as { response?: unknown };
+      return unwrapStructuredOutput(data.response || data);
+    }, signal);
+  }
+
+  /**
+   * Generate content with streaming
+   */
+  async *streamGenerateContent(
+    model: string,
+    request: GenerateContentRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamChunk> {
+    const { actualModel, thinkingConfig, isClaude, headers: modelHeaders } = this.prepareRequest(model, request);
+    const cache = planPromptCache(request, isClaude);
+
     // Add interleaved thinking header for Claude
     const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
       Accept: "text/event-stream",
-      ...ANTIGRAVITY_HEADERS,
+      ...modelHeaders,
     };
 
     if (isClaude && thinkingConfig?.thinkingBudget) {
       headers["anthropic-beta"] = "interleaved-thinking-2025-05-14";
     }
 
-    const body: AntigravityRequest = {
-      project: this.getProjectId(),
-      model: actualModel,
-      request,
-      userAgent: "antigravity",
-      requestId: `agent-${crypto.randomUUID()}`,
-    };
+    const deadline = Date.now() + RETRY_DEADLINE_MS;
 
-    let lastError: Error | null = null;
+    for (let attempt = 0; ; attempt++) {
+      let started = false;
 
-    // Try endpoints in order
-    for (const endpoint of ANTIGRAVITY_ENDPOINTS) {
       try {
-        const response = await fetch(
-          `${endpoint}/v1internal:streamGenerateContent?alt=sse`,
-          {
-            method: "POST",
-            headers,
-            body: JSON.stringify(body),
-          }
+        const response = await this.post(
+          "streamGenerateContent?alt=sse",
+          actualModel,
+          (account) => this.wrapRequest(account, actualModel, request),
+          headers,
+          cache,
+          signal
         );
 
-        if (!response.ok) {
-          if (response.status === 403 || response.status === 404 || response.status >= 500) {
-            continue;
+        let finishReason: string | undefined;
+        for await (const payload of this.readSSE(response)) {
+          finishReason =
+            (payload as { candidates?: Array<{ finishReason?: string }> }).candidates?.[0]?.finishReason ??
+            finishReason;
+          for (const chunk of this.toStreamChunks(payload)) {
+            started = true;
+            yield chunk;
           }
-          const errorText = await response.text();
-          throw new Error(`API error ${response.status}: ${errorText}`);
         }
 
-        if (!response.body) {
-          throw new Error("No response body");
+        yield { type: "done", ...(finishReason ? { finishReason } : {}) };
+        return;
+      } catch (error) {
+        // Retry transparently only while nothing has been sent downstream
+        // and the request hasn't been aborted
+        const delay = started || signal?.aborted ? null : this.retryDelay(error, actualModel, attempt, deadline);
+        if (delay !== null) await sleep(delay, signal);
+        if (delay === null || signal?.aborted) {
+          yield {
+            type: "error",
+            error: error instanceof Error ? error.message : String(error),
+            status: error instanceof AntigravityApiError ? error.status : undefined,
+          };
+          return;
         }
+      }
+    }
+  }
 
-        // Process SSE stream
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = "";
+  /**
+   * Generate content from a native Gemini request body, forwarded unchanged
+   */
+  async generateContentRaw(model: string, request: GenerateContentRequest): Promise<unknown> {
+    const { actualModel, headers } = this.resolveModel(model);
 
-        while (true) {
-          const { done, value } = await reader.read();
+    return this.withRetry(actualModel, async () => {
+      const response = await this.post(
+        "generateContent",
+        actualModel,
+        (account) => this.wrapRequest(account, actualModel, request),
+        headers
+      );
+      const data = await response.json() as { response?: unknown };
+      return data.response || data;
+    });
+  }
 
-          if (done) {
-            yield { type: "done" };
-            return;
-          }
+  /**
+   * Stream content from a native Gemini request body, yielding raw response payloads
+   */
+  async *streamGenerateContentRaw(
+    model: string,
+    request: GenerateContentRequest
+  ): AsyncGenerator<unknown> {
+    const { actualModel, headers } = this.resolveModel(model);
+    const deadline = Date.now() + RETRY_DEADLINE_MS;
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (!line.startsWith("data:")) continue;
-
-            const jsonStr = line.slice(5).trim();
-            if (!jsonStr) continue;
-
-            try {
-              const data = JSON.parse(jsonStr) as {
-                response?: {
-                  candidates?: Array<{
-                    content?: {
-                      parts?: Array<{
-                        text?: string;
-                        thought?: boolean;
-                        type?: string;
-                        thinking?: string;
-                      }>;
-                    };
-                  }>;
-                  usageMetadata?: {
-                    promptTokenCount?: number;
-                    candidatesTokenCount?: number;
-                    totalTokenCount?: number;
-                  };
-                };
-              };
-
-              const response = data.response;
-              if (!response?.candidates?.[0]?.content?.parts) continue;
-
-              for (const part of response.candidates[0].content.parts) {
-                if (part.thought === true || part.type === "thinking") {
-                  yield {
-                    type: "thinking",
-                    thinking: part.text || part.thinking || "",
-                  };
-                } else if (part.text) {
-                  yield {
-                    type: "content",
-                    content: part.text,
-                  };
-                }
-              }
-
-              // Include usage if available
-              if (response.usageMetadata) {
-                yield {
-                  type: "content",
-                  usage: {
-                    promptTokens: response.usageMetadata.promptTokenCount,
-                    completionTokens: response.usageMetadata.candidatesTokenCount,
-                    totalTokens: response.usageMetadata.totalTokenCount,
-                  },
-                };
-              }
-            } catch {
-              // Skip malformed JSON
-            }
-          }
+    for (let attempt = 0; ; attempt++) {
+      let started = false;
+
+      try {
+        const response = await this.post(
+          "streamGenerateContent?alt=sse",
+          actualModel,
+          (account) => this.wrapRequest(account, actualModel, request),
+          { Accept: "text/event-stream", ...headers }
+        );
+
+        for await (const payload of this.readSSE(response)) {
+          started = true;
+          yield payload;
         }
+        return;
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        if (endpoint === ANTIGRAVITY_ENDPOINTS[ANTIGRAVITY_ENDPOINTS.length - 1]) {
-          yield { type: "error", error: lastError.message };
-          return;
-        }
-        // Continue to next endpoint
+        // Retry transparently only while nothing has been sent downstream
+        const delay = started ? null : this.retryDelay(error, actualModel, attempt, deadline);
+        if (delay === null) throw error;
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Count tokens for a native Gemini request body. This makes one attempt on
+   * one account: counting spends no generation quota, so a failure is returned
+   * as is rather than retried or put on the account's cooldown.
+   */
+  async countTokens(
+    model: string,
+    request: { contents?: unknown[];[key: string]: unknown }
+  ): Promise<{ totalTokens?: number;[key: string]: unknown }> {
+    const { actualModel, headers } = this.resolveModel(model);
+    const account = this.selectAccount(new Set(), actualModel);
+    if (!account) {
+      throw new Error(this.accounts.length === 0
+        ? "Not authenticated. Run 'bun run auth' first."
+        : `All accounts are rate limited for ${actualModel}`);
+    }
+
+    const accessToken = await this.ensureValidToken(account);
+    const response = await this.postToEndpoints(
+      accessToken,
+      "countTokens",
+      {
+        request: {
+          model: `models/${actualModel}`,
+          ...request,
+        },
+      },
+      headers
+    );
+    return await response.json() as { totalTokens?: number };
+  }
+
+  /**
+   * List the models each account can use, with their limits and remaining
+   * quota. Accounts whose listing fails are left out.
+   */
+  async fetchAvailableModels(): Promise<Array<{ models?: Record<string, unknown> }>> {
+    const listings: Array<{ models?: Record<string, unknown> }> = [];
+
+    for (const account of this.accounts) {
+      try {
+        const accessToken = await this.ensureValidToken(account);
+        const response = await this.postToEndpoints(
+          accessToken,
+          "fetchAvailableModels",
+          { project: account.projectId || ANTIGRAVITY_DEFAULT_PROJECT_ID },
+          {}
+        );
+        listings.push(await response.json() as { models?: Record<string, unknown> });
+      } catch (error) {
+        console.error(
+          `[AntigravityClient] Failed to list models for ${account.email || "account"}:`,
+          error instanceof Error ? error.message : error
+        );
       }
     }
 
-    yield { type: "error", error: lastError?.message || "All endpoints failed" };
+    return listings;
   }
 }
 
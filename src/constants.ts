@@ -40,127 +40,3 @@ export const ANTIGRAVITY_HEADERS = {
 
 // Default project ID when Antigravity does not return one
 export const ANTIGRAVITY_DEFAULT_PROJECT_ID = "rising-fact-p41fc";
-
-// Available models
-export const AVAILABLE_MODELS = {
-  "gemini-3-pro-low": {
-    id: "gemini-3-pro-low",
-    object: "model",
-    created: Date.now(),
-    owned_by: "google",
-    display_name: "Gemini 3 Pro (Low Thinking)",
-    description: "Gemini 3 Pro with low thinking budget",
-    type: "model",
-    context_length: 1000000,
-    thinkingLevel: "low",
-  },
-  "gemini-3-pro-high": {
-    id: "gemini-3-pro-high",
-    object: "model",
-    created: Date.now(),
-    owned_by: "google",
-    display_name: "Gemini 3 Pro (High Thinking)",
-    description: "Gemini 3 Pro with high thinking budget",
-    type: "model",
-    context_length: 1000000,
-    thinkingLevel: "high",
-  },
-  "gemini-3-flash": {
-    id: "gemini-3-flash",
-    object: "model",
-    created: Date.now(),
-    owned_by: "google",
-    display_name: "Gemini 3 Flash",
-    description: "Fast Gemini 3 model",
-    type: "model",
-    context_length: 1000000,
-  },
-  "claude-sonnet-4-5": {
-    id: "claude-sonnet-4-5",
-    object: "model",
-    created: Date.now(),
-    owned_by: "anthropic",
-    display_name: "Claude Sonnet 4.5",
-    description: "Claude Sonnet 4.5 without extended thinking",
-    type: "model",
-    context_length: 200000,
-  },
-  "claude-sonnet-4-5-thinking-low": {
-    id: "claude-sonnet-4-5-thinking-low",
-    object: "model",
-    created: Date.now(),
-    owned_by: "anthropic",
-    display_name: "Claude Sonnet 4.5 (8K Thinking)",
-    description: "Claude Sonnet 4.5 with 8K thinking budget",
-    type: "model",
-    context_length: 200000,
-    thinkingBudget: 8192,
-  },
-  "claude-sonnet-4-5-thinking-medium": {
-    id: "claude-sonnet-4-5-thinking-medium",
-    object: "model",
-    created: Date.now(),
-    owned_by: "anthropic",
-    display_name: "Claude Sonnet 4.5 (16K Thinking)",
-    description: "Claude Sonnet 4.5 with 16K thinking budget",
-    type: "model",
-    context_length: 200000,
-    thinkingBudget: 16384,
-  },
-  "claude-sonnet-4-5-thinking-high": {
-    id: "claude-sonnet-4-5-thinking-high",
-    object: "model",
-    created: Date.now(),
-    owned_by: "anthropic",
-    display_name: "Claude Sonnet 4.5 (32K Thinking)",
-    description: "Claude Sonnet 4.5 with 32K thinking budget",
-    type: "model",
-    context_length: 200000,
-    thinkingBudget: 32768,
-  },
-  "claude-opus-4-5-thinking-low": {
-    id: "claude-opus-4-5-thinking-low",
-    object: "model",
-    created: Date.now(),
-    owned_by: "anthropic",
-    display_name: "Claude Opus 4.5 (8K Thinking)",
-    description: "Claude Opus 4.5 with 8K thinking budget",
-    type: "model",
-    context_length: 200000,
-    thinkingBudget: 8192,
-  },
-  "claude-opus-4-5-thinking-medium": {
-    id: "claude-opus-4-5-thinking-medium",
-    object: "model",
-    created: Date.now(),
-    owned_by: "anthropic",
-    display_name: "Claude Opus 4.5 (16K Thinking)",
-    description: "Claude Opus 4.5 with 16K thinking budget",
-    type: "model",
-    context_length: 200000,
-    thinkingBudget: 16384,
-  },
-  "claude-opus-4-5-thinking-high": {
-    id: "claude-opus-4-5-thinking-high",
-    object: "model",
-    created: Date.now(),
-    owned_by: "anthropic",
-    display_name: "Claude Opus 4.5 (32K Thinking)",
-    description: "Claude Opus 4.5 with 32K thinking budget",
-    type: "model",
-    context_length: 200000,
-    thinkingBudget: 32768,
-  },
-  "gpt-oss-120b-medium": {
-    id: "gpt-oss-120b-medium",
-    object: "model",
-    created: Date.now(),
-    owned_by: "google",
-    display_name: "GPT-OSS 120B Medium",
-    description: "Open source 120B parameter model",
-    type: "model",
-    context_length: 128000,
-  },
-} as const;
-
-export type ModelId = keyof typeof AVAILABLE_MODELS;
@@ -2,9 +2,21 @@
  * Convert between OpenAI API format and Antigravity API format
  */
 
+import { audioMimeType, parseDataUri } from "./media";
+import { isClaudeModel } from "./models";
+import { conversationKey, getSignature, recordSignatures, type CachedSignature } from "./signatures";
+
+export interface OpenAIContentPart {
+  type: string;
+  text?: string;
+  image_url?: { url: string; detail?: string };
+  file?: { file_data?: string; file_id?: string; filename?: string };
+  input_audio?: { data: string; format: string };
+}
+
 export interface OpenAIMessage {
   role: "system" | "user" | "assistant" | "tool";
-  content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+  content: string | OpenAIContentPart[];
   name?: string;
   tool_calls?: Array<{
     id: string;
@@ -20,7 +32,17 @@ export interface OpenAIChatRequest {
   temperature?: number;
   top_p?: number;
   max_tokens?: number;
+  max_completion_tokens?: number;
+  stop?: string | string[];
+  n?: number;
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  logprobs?: boolean;
+  top_logprobs?: number;
+  user?: string;
   stream?: boolean;
+  stream_options?: { include_usage?: boolean };
   tools?: Array<{
     type: "function";
     function: {
@@ -29,15 +51,30 @@ export interface OpenAIChatRequest {
       parameters?: Record<string, unknown>;
     };
   }>;
-  tool_choice?: "auto" | "none" | { type: "function"; function: { name: string } };
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; function: { name: string } };
+  reasoning_effort?: "none" | "minimal" | "low" | "medium" | "high";
+  thinking?: { type?: "enabled" | "disabled"; budget_tokens?: number };
+  response_format?:
+  | { type: "text" | "json_object" }
+  | {
+    type: "json_schema";
+    json_schema: {
+      name: string;
+      description?: string;
+      schema?: Record<string, unknown>;
+      strict?: boolean;
+    };
+  };
+  include_reasoning?: boolean;
+  truncation?: "auto" | "disabled";
 }
 
 export interface AntigravityContent {
   role: "user" | "model";
   parts: Array<{
     text?: string;
-    functionCall?: { name: string; args: Record<string, unknown> };
-    functionResponse?: { name: string; response: unknown };
+    functionCall?: { id?: string; name: string; args: Record<string, unknown> };
+    functionResponse?: { id?: string; name: string; response: unknown };
     inlineData?: { mimeType: string; data: string };
     [key: string]: unknown;
   }>;
@@ -78,31 +115,47 @@ export interface AntigravityRequest {
   [key: string]: unknown;
 }
 
+export interface OpenAILogprob {
+  token: string;
+  logprob: number;
+  bytes: number[] | null;
+}
+
 export interface OpenAIChoice {
   index: number;
   message: {
     role: "assistant";
     content: string | null;
+    reasoning_content?: string;
     tool_calls?: Array<{
       id: string;
       type: "function";
       function: { name: string; arguments: string };
     }>;
   };
+  logprobs?: {
+    content: Array<OpenAILogprob & { top_logprobs: OpenAILogprob[] }>;
+  } | null;
   finish_reason: "stop" | "length" | "tool_calls" | "content_filter" | null;
 }
 
+/**
+ * Token usage, with prompt tokens served from the backend's cache
+ */
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens: number };
+}
+
 export interface OpenAIChatResponse {
   id: string;
   object: "chat.completion";
   created: number;
   model: string;
   choices: OpenAIChoice[];
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: OpenAIUsage;
 }
 
 export interface OpenAIStreamChunk {
@@ -115,6 +168,7 @@ export interface OpenAIStreamChunk {
     delta: {
       role?: "assistant";
       content?: string;
+      reasoning_content?: string;
       tool_calls?: Array<{
         index: number;
         id?: string;
@@ -124,11 +178,7 @@ export interface OpenAIStreamChunk {
     };
     finish_reason: "stop" | "length" | "tool_calls" | "content_filter" | null;
   }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: OpenAIUsage;
 }
 
 /**
@@ -152,28 +202,95 @@ export function convertOpenAIToAntigravity(request: OpenAIChatRequest): Antigrav
     }
   }
 
+  // Map tool call ids to function names and call order so tool results can be matched
+  const toolNames = new Map<string, string>();
+  const toolOrder = new Map<string, number>();
+  for (const msg of request.messages) {
+    (msg.tool_calls || []).forEach((toolCall, index) => {
+      toolNames.set(toolCall.id, toolCall.function.name);
+      toolOrder.set(toolCall.id, index);
+    });
+  }
+  const sendIds = supportsToolCallIds(request.model);
+
   // Convert messages (excluding system)
   const nonSystemMessages = request.messages.filter((m) => m.role !== "system");
+  let toolTurn: { content: AntigravityContent; order: number[] } | null = null;
 
   for (const msg of nonSystemMessages) {
-    const content = convertMessage(msg);
-    if (content) {
-      antigravityRequest.contents.push(content);
+    const content = convertMessage(msg, toolNames, sendIds);
+    if (!content) continue;
+
+    // Consecutive tool results form one turn, ordered like the calls they answer
+    const order = toolOrder.get(msg.tool_call_id || "") ?? Infinity;
+    if (msg.role === "tool" && toolTurn) {
+      let index = toolTurn.order.findIndex((o) => o > order);
+      if (index === -1) index = toolTurn.order.length;
+      toolTurn.order.splice(index, 0, order);
+      toolTurn.content.parts.splice(index, 0, ...content.parts);
+      continue;
     }
+
+    toolTurn = msg.role === "tool" ? { content, order: [order] } : null;
+    antigravityRequest.contents.push(content);
   }
 
   // Convert generation config
-  if (request.temperature !== undefined || request.top_p !== undefined || request.max_tokens !== undefined) {
-    antigravityRequest.generationConfig = {};
+  const generationConfig: NonNullable<AntigravityRequest["generationConfig"]> = {};
+  const maxTokens = request.max_completion_tokens ?? request.max_tokens;
 
-    if (request.temperature !== undefined) {
-      antigravityRequest.generationConfig.temperature = request.temperature;
-    }
-    if (request.top_p !== undefined) {
-      antigravityRequest.generationConfig.topP = request.top_p;
+  if (request.temperature !== undefined) {
+    generationConfig.temperature = request.temperature;
+  }
+  if (request.top_p !== undefined) {
+    generationConfig.topP = request.top_p;
+  }
+  if (maxTokens !== undefined) {
+    generationConfig.maxOutputTokens = maxTokens;
+  }
+  if (request.stop !== undefined) {
+    generationConfig.stopSequences = Array.isArray(request.stop) ? request.stop : [request.stop];
+  }
+  if (request.n !== undefined) {
+    generationConfig.candidateCount = request.n;
+  }
+  if (request.seed !== undefined) {
+    generationConfig.seed = request.seed;
+  }
+  if (request.presence_penalty !== undefined) {
+    generationConfig.presencePenalty = request.presence_penalty;
+  }
+  if (request.frequency_penalty !== undefined) {
+    generationConfig.frequencyPenalty = request.frequency_penalty;
+  }
+  if (request.logprobs) {
+    generationConfig.responseLogprobs = true;
+    if (request.top_logprobs !== undefined) {
+      generationConfig.logprobs = request.top_logprobs;
     }
-    if (request.max_tokens !== undefined) {
-      antigravityRequest.generationConfig.maxOutputTokens = request.max_tokens;
+  }
+
+  // Requested thinking; the client maps it onto the model family's thinking config
+  if (request.thinking?.type === "disabled") {
+    generationConfig.thinkingConfig = { thinkingBudget: 0 };
+  } else if (request.thinking?.budget_tokens !== undefined) {
+    generationConfig.thinkingConfig = { thinkingBudget: request.thinking.budget_tokens };
+  } else if (request.reasoning_effort) {
+    generationConfig.thinkingConfig = { thinkingLevel: request.reasoning_effort };
+  }
+
+  if (Object.keys(generationConfig).length > 0) {
+    antigravityRequest.generationConfig = generationConfig;
+  }
+
+  // Request JSON output; the schema is cleaned per model family by the client
+  if (request.response_format && request.response_format.type !== "text") {
+    antigravityRequest.generationConfig = {
+      ...antigravityRequest.generationConfig,
+      responseMimeType: "application/json",
+    };
+    if (request.response_format.type === "json_schema" && request.response_format.json_schema.schema) {
+      antigravityRequest.generationConfig.responseSchema = request.response_format.json_schema.schema;
     }
   }
 
@@ -199,6 +316,8 @@ export function convertOpenAIToAntigravity(request: OpenAIChatRequest): Antigrav
         antigravityRequest.toolConfig.functionCallingConfig!.mode = "NONE";
       } else if (request.tool_choice === "auto") {
         antigravityRequest.toolConfig.functionCallingConfig!.mode = "AUTO";
+      } else if (request.tool_choice === "required") {
+        antigravityRequest.toolConfig.functionCallingConfig!.mode = "ANY";
       } else if (typeof request.tool_choice === "object") {
         antigravityRequest.toolConfig.functionCallingConfig!.mode = "ANY";
         antigravityRequest.toolConfig.functionCallingConfig!.allowedFunctionNames = [
@@ -211,10 +330,83 @@ export function convertOpenAIToAntigravity(request: OpenAIChatRequest): Antigrav
   return antigravityRequest;
 }
 
+/**
+ * Whether the backend pairs function calls and responses by id for a model.
+ * Claude requires matching ids; Gemini pairs them by name and order.
+ */
+export function supportsToolCallIds(model: string): boolean {
+  return isClaudeModel(model);
+}
+
+/**
+ * Find a request parameter that is malformed in a way the request schema
+ * doesn't catch
+ */
+export function findInvalidParameter(
+  request: OpenAIChatRequest
+): { param: string; message: string } | null {
+  const format = request.response_format;
+  if (format?.type === "json_schema") {
+    const jsonSchema = (format as { json_schema?: unknown }).json_schema;
+    if (typeof jsonSchema !== "object" || jsonSchema === null || Array.isArray(jsonSchema)) {
+      return {
+        param: "response_format.json_schema",
+        message: "'response_format.json_schema' must be an object when 'response_format.type' is 'json_schema'.",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a request parameter the model family (or streaming) can't honour
+ */
+export function findUnsupportedParameter(
+  request: OpenAIChatRequest
+): { param: string; message: string } | null {
+  const isClaude = isClaudeModel(request.model);
+
+  if (request.n !== undefined && request.n > 1) {
+    if (isClaude) {
+      return { param: "n", message: "Claude models only return one choice; 'n' must be 1." };
+    }
+    if (request.stream) {
+      return { param: "n", message: "'n' greater than 1 is not supported when streaming." };
+    }
+  }
+
+  if (request.logprobs) {
+    if (isClaude) {
+      return { param: "logprobs", message: "Claude models do not return log probabilities." };
+    }
+    if (request.stream) {
+      return { param: "logprobs", message: "'logprobs' is not supported when streaming." };
+    }
+  }
+
+  if (isClaude) {
+    if (request.seed !== undefined) {
+      return { param: "seed", message: "Claude models do not support 'seed'." };
+    }
+    for (const param of ["presence_penalty", "frequency_penalty"] as const) {
+      if (request[param]) {
+        return { param, message: `Claude models do not support '${param}'.` };
+      }
+    }
+  }
+
+  return null;
+}
+
 /**
  * Convert a single OpenAI message to Antigravity content
  */
-function convertMessage(msg: OpenAIMessage): AntigravityContent | null {
+function convertMessage(
+  msg: OpenAIMessage,
+  toolNames: Map<string, string>,
+  sendIds: boolean
+): AntigravityContent | null {
   const role: "user" | "model" = msg.role === "assistant" ? "model" : "user";
   const parts: AntigravityContent["parts"] = [];
 
@@ -226,13 +418,18 @@ function convertMessage(msg: OpenAIMessage): AntigravityContent | null {
     } catch {
       responseContent = { result: msg.content };
     }
+    // functionResponse.response must be an object
+    if (typeof responseContent !== "object" || responseContent === null || Array.isArray(responseContent)) {
+      responseContent = { result: responseContent };
+    }
 
     return {
       role: "user",
       parts: [
         {
           functionResponse: {
-            name: msg.name || msg.tool_call_id,
+            ...(sendIds ? { id: msg.tool_call_id } : {}),
+            name: toolNames.get(msg.tool_call_id) || msg.name || msg.tool_call_id,
             response: responseContent,
           },
         },
@@ -249,24 +446,26 @@ function convertMessage(msg: OpenAIMessage): AntigravityContent | null {
     for (const item of msg.content) {
       if (item.type === "text" && item.text) {
         parts.push({ text: item.text });
-      } else if (item.type === "image_url" && item.image_url?.url) {
-        // Handle base64 images
-        const url = item.image_url.url;
-        if (url.startsWith("data:")) {
-          const match = url.match(/^data:([^;]+);base64,(.+)$/);
-          if (match) {
-            parts.push({
-              inlineData: {
-                mimeType: match[1],
-                data: match[2],
-              },
-            });
-          }
+      } else if (item.type === "image_url" || item.type === "file") {
+        // Remote images and files have been resolved to data URIs by resolveMediaInputs
+        const inline = parseDataUri(item.image_url?.url || item.file?.file_data || "");
+        if (inline) {
+          parts.push({ inlineData: inline });
         }
+      } else if (item.type === "input_audio" && item.input_audio) {
+        parts.push({
+          inlineData: {
+            mimeType: audioMimeType(item.input_audio.format) || "audio/wav",
+            data: item.input_audio.data,
+          },
+        });
       }
     }
   }
 
+  // Cached signature of a signed thinking block to replay ahead of this turn
+  let thinkingBlock: CachedSignature | undefined;
+
   // Handle tool calls from assistant
   if (msg.role === "assistant" && msg.tool_calls) {
     for (const toolCall of msg.tool_calls) {
@@ -277,13 +476,37 @@ function convertMessage(msg: OpenAIMessage): AntigravityContent | null {
         // Use empty object if parsing fails
       }
 
+      const cached = getSignature(toolCall.id);
+      if (cached?.thinking !== undefined) {
+        thinkingBlock ??= cached;
+      }
+
       parts.push({
         functionCall: {
+          ...(sendIds ? { id: toolCall.id } : {}),
           name: toolCall.function.name,
           args,
         },
+        ...(cached && cached.thinking === undefined ? { thoughtSignature: cached.signature } : {}),
       });
     }
+  } else if (msg.role === "assistant") {
+    const text = parts.map((p) => p.text || "").join("");
+    const cached = text ? getSignature(conversationKey(text)) : undefined;
+
+    if (cached?.thinking !== undefined) {
+      thinkingBlock = cached;
+    } else if (cached) {
+      parts[parts.length - 1].thoughtSignature = cached.signature;
+    }
+  }
+
+  if (thinkingBlock) {
+    parts.unshift({
+      text: thinkingBlock.thinking,
+      thought: true,
+      thoughtSignature: thinkingBlock.signature,
+    });
   }
 
   if (parts.length === 0) {
@@ -303,35 +526,48 @@ export function convertAntigravityToOpenAI(
         parts?: Array<{
           text?: string;
           thought?: boolean;
-          functionCall?: { name: string; args: Record<string, unknown> };
+          thoughtSignature?: string;
+          functionCall?: { id?: string; name: string; args: Record<string, unknown> };
         }>;
       };
       finishReason?: string;
+      index?: number;
+      logprobsResult?: {
+        topCandidates?: Array<{ candidates?: Array<{ token?: string; logProbability?: number }> }>;
+        chosenCandidates?: Array<{ token?: string; logProbability?: number }>;
+      };
     }>;
     usageMetadata?: {
       promptTokenCount?: number;
       candidatesTokenCount?: number;
+      cachedContentTokenCount?: number;
       totalTokenCount?: number;
     };
   },
   model: string,
-  requestId?: string
+  requestId?: string,
+  includeReasoning = true
 ): OpenAIChatResponse {
   const id = requestId || `chatcmpl-${crypto.randomUUID()}`;
   const created = Math.floor(Date.now() / 1000);
 
   const choices: OpenAIChoice[] = [];
 
-  if (response.candidates && response.candidates.length > 0) {
-    const candidate = response.candidates[0];
+  for (const [candidateIndex, candidate] of (response.candidates || []).entries()) {
     const parts = candidate.content?.parts || [];
 
     let content = "";
+    let reasoning = "";
     const toolCalls: OpenAIChoice["message"]["tool_calls"] = [];
+    const signatures = recordSignatures();
 
     for (const part of parts) {
-      // Skip thinking parts in response
+      // Collect thinking parts separately as reasoning content
       if (part.thought === true) {
+        signatures.thinking(part.text || "", part.thoughtSignature);
+        if (includeReasoning && part.text) {
+          reasoning += part.text;
+        }
         continue;
       }
 
@@ -340,16 +576,21 @@ export function convertAntigravityToOpenAI(
       }
 
       if (part.functionCall) {
+        const id = part.functionCall.id || `call_${crypto.randomUUID().slice(0, 8)}`;
+        signatures.toolCall(id, part.thoughtSignature);
         toolCalls.push({
-          id: `call_${crypto.randomUUID().slice(0, 8)}`,
+          id,
           type: "function",
           function: {
             name: part.functionCall.name,
             arguments: JSON.stringify(part.functionCall.args || {}),
           },
         });
+      } else {
+        signatures.content(part.text || "", part.thoughtSignature);
       }
     }
+    signatures.finish();
 
     let finishReason: OpenAIChoice["finish_reason"] = "stop";
     if (candidate.finishReason === "MAX_TOKENS") {
@@ -358,13 +599,21 @@ export function convertAntigravityToOpenAI(
       finishReason = "tool_calls";
     }
 
+    // Map Gemini log probabilities to OpenAI's per-token format
+    const logprobs = candidate.logprobsResult?.chosenCandidates?.map((chosen, i) => ({
+      ...toLogprob(chosen),
+      top_logprobs: (candidate.logprobsResult?.topCandidates?.[i]?.candidates || []).map(toLogprob),
+    }));
+
     choices.push({
-      index: 0,
+      index: candidate.index ?? candidateIndex,
       message: {
         role: "assistant",
         content: content || null,
+        ...(reasoning ? { reasoning_content: reasoning } : {}),
         ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
       },
+      ...(logprobs ? { logprobs: { content: logprobs } } : {}),
       finish_reason: finishReason,
     });
   }
@@ -382,22 +631,39 @@ export function convertAntigravityToOpenAI(
       prompt_tokens: response.usageMetadata.promptTokenCount || 0,
       completion_tokens: response.usageMetadata.candidatesTokenCount || 0,
       total_tokens: response.usageMetadata.totalTokenCount || 0,
+      ...(response.usageMetadata.cachedContentTokenCount
+        ? { prompt_tokens_details: { cached_tokens: response.usageMetadata.cachedContentTokenCount } }
+        : {}),
     };
   }
 
   return result;
 }
 
+/**
+ * Convert a Gemini log probability candidate to OpenAI format
+ */
+function toLogprob(candidate: { token?: string; logProbability?: number }): OpenAILogprob {
+  const token = candidate.token || "";
+  return {
+    token,
+    logprob: candidate.logProbability ?? 0,
+    bytes: [...Buffer.from(token, "utf-8")],
+  };
+}
+
 /**
  * Create an OpenAI streaming chunk
+ *
+ * `delta` may be plain text content or a partial delta object (e.g. tool calls).
  */
 export function createStreamChunk(
   id: string,
   model: string,
-  content?: string,
+  delta?: string | Omit<OpenAIStreamChunk["choices"][0]["delta"], "role">,
   isFirst = false,
   finishReason: OpenAIStreamChunk["choices"][0]["finish_reason"] = null,
-  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number }
+  usage?: OpenAIUsage
 ): OpenAIStreamChunk {
   return {
     id,
@@ -409,7 +675,7 @@ export function createStreamChunk(
         index: 0,
         delta: {
           ...(isFirst ? { role: "assistant" } : {}),
-          ...(content !== undefined ? { content } : {}),
+          ...(typeof delta === "string" ? { content: delta } : delta),
         },
         finish_reason: finishReason,
       },
@@ -418,6 +684,60 @@ export function createStreamChunk(
   };
 }
 
+/**
+ * Create the trailing usage chunk sent when `stream_options.include_usage` is set
+ */
+export function createUsageChunk(
+  id: string,
+  model: string,
+  usage: OpenAIUsage
+): OpenAIStreamChunk {
+  return {
+    id,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [],
+    usage,
+  };
+}
+
+/**
+ * Replay a complete chat completion as an SSE stream, for responses served from cache
+ */
+export function replayChatCompletionSSE(response: OpenAIChatResponse, includeUsage = false): string {
+  const message = response.choices[0]?.message;
+  const deltas: Array<Parameters<typeof createStreamChunk>[2]> = [];
+
+  if (message?.reasoning_content) {
+    deltas.push({ reasoning_content: message.reasoning_content });
+  }
+  if (message?.content) {
+    deltas.push(message.content);
+  }
+  (message?.tool_calls || []).forEach((toolCall, index) => {
+    deltas.push({ tool_calls: [{ index, ...toolCall }] });
+  });
+
+  const chunks = deltas.map((delta, i) => createStreamChunk(response.id, response.model, delta, i === 0));
+  chunks.push(
+    createStreamChunk(
+      response.id,
+      response.model,
+      undefined,
+      chunks.length === 0,
+      response.choices[0]?.finish_reason ?? "stop",
+      // Usage goes in its own chunk when the client asked for it
+      includeUsage ? undefined : response.usage
+    )
+  );
+  if (includeUsage && response.usage) {
+    chunks.push(createUsageChunk(response.id, response.model, response.usage));
+  }
+
+  return chunks.map(formatSSE).join("") + formatSSEDone();
+}
+
 /**
  * Format SSE message
  */
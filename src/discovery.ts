@@ -0,0 +1,172 @@
+/**
+ * Model discovery. The backend's model listing is fetched for every account at
+ * startup and periodically, and merged with the model registry: models no
+ * account can use are hidden, and the backend's limits replace the registry's.
+ */
+
+import { client } from "./client";
+import { AVAILABLE_MODELS, type ModelInfo } from "./models";
+
+const REFRESH_INTERVAL_MS = (Number(process.env.MODEL_DISCOVERY_INTERVAL) || 5 * 60) * 1000;
+
+/**
+ * A model as listed by fetchAvailableModels for one account
+ */
+interface BackendModel {
+  displayName?: string;
+  maxTokens?: number;
+  maxOutputTokens?: number;
+  quotaInfo?: {
+    remainingFraction?: number;
+    resetTime?: string;
+  };
+}
+
+/**
+ * A backend model merged across the account pool
+ */
+interface DiscoveredModel {
+  contextLength?: number;
+  maxOutputTokens?: number;
+  // No account has quota left; resets at `resetTime`
+  exhausted: boolean;
+  resetTime?: string;
+}
+
+/**
+ * A registry model with the limits and availability the backend reports
+ */
+export interface ModelStatus {
+  model: ModelInfo;
+  available: boolean;
+  // Why the model can't be used
+  reason?: string;
+}
+
+// Backend models by name, or null until a listing succeeds
+let discovered: Map<string, DiscoveredModel> | null = null;
+let lastRefreshAt: number | null = null;
+
+/**
+ * Merge one account's listing into the pool's: limits are the largest
+ * reported, and a model is exhausted only when every account is out of quota
+ */
+function mergeListing(models: Map<string, DiscoveredModel>, listing: Record<string, unknown>): void {
+  for (const [name, value] of Object.entries(listing)) {
+    const info = (value || {}) as BackendModel;
+    const exhausted = info.quotaInfo?.remainingFraction === 0;
+    const existing = models.get(name);
+
+    if (!existing) {
+      models.set(name, {
+        contextLength: info.maxTokens,
+        maxOutputTokens: info.maxOutputTokens,
+        exhausted,
+        resetTime: exhausted ? info.quotaInfo?.resetTime : undefined,
+      });
+      continue;
+    }
+
+    existing.contextLength = Math.max(existing.contextLength || 0, info.maxTokens || 0) || undefined;
+    existing.maxOutputTokens = Math.max(existing.maxOutputTokens || 0, info.maxOutputTokens || 0) || undefined;
+    if (!exhausted) {
+      existing.exhausted = false;
+      existing.resetTime = undefined;
+    } else if (existing.exhausted && info.quotaInfo?.resetTime) {
+      // The pool has quota again once the first account resets
+      if (!existing.resetTime || info.quotaInfo.resetTime < existing.resetTime) {
+        existing.resetTime = info.quotaInfo.resetTime;
+      }
+    }
+  }
+}
+
+/**
+ * Fetch the backend's model listing for every account. The previous listing
+ * is kept if no account could be queried.
+ */
+export async function refreshModels(): Promise<void> {
+  if (!client.hasValidTokens()) return;
+
+  const listings = await client.fetchAvailableModels();
+  if (listings.length === 0) return;
+
+  const models = new Map<string, DiscoveredModel>();
+  for (const listing of listings) {
+    mergeListing(models, listing.models || {});
+  }
+
+  discovered = models;
+  lastRefreshAt = Date.now();
+}
+
+/**
+ * The backend entry serving a registry model: its upstream name, else that of
+ * its base model or another alias of it, since the backend may list only some
+ * thinking variants
+ */
+function findBackendModel(model: ModelInfo, models: Map<string, DiscoveredModel>): DiscoveredModel | undefined {
+  const baseId = model.baseModel ?? model.id;
+  const related = [
+    model,
+    AVAILABLE_MODELS[baseId],
+    ...Object.values(AVAILABLE_MODELS).filter((m) => m.baseModel === baseId),
+  ];
+
+  for (const candidate of related) {
+    const entry = candidate && models.get(candidate.upstream ?? candidate.id);
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * A registry model's availability and limits, or null if there's no such
+ * model. Every model counts as available until the backend has been listed.
+ */
+export function getModelStatus(id: string): ModelStatus | null {
+  const model = AVAILABLE_MODELS[id];
+  if (!model) return null;
+  if (!discovered) return { model, available: true };
+
+  const entry = findBackendModel(model, discovered);
+  if (!entry) {
+    return { model, available: false, reason: "not available to any account" };
+  }
+
+  const limits = {
+    ...model,
+    ...(entry.contextLength ? { context_length: entry.contextLength } : {}),
+    ...(entry.maxOutputTokens ? { max_output_tokens: entry.maxOutputTokens } : {}),
+  };
+
+  if (entry.exhausted) {
+    return {
+      model: limits,
+      available: false,
+      reason: entry.resetTime ? `out of quota until ${entry.resetTime}` : "out of quota",
+    };
+  }
+
+  return { model: limits, available: true };
+}
+
+/**
+ * When the backend's model listing was last fetched
+ */
+export function getLastDiscovery(): Date | null {
+  return lastRefreshAt ? new Date(lastRefreshAt) : null;
+}
+
+/**
+ * List the backend's models now and every MODEL_DISCOVERY_INTERVAL seconds
+ */
+export function startModelDiscovery(): void {
+  const refresh = () =>
+    refreshModels().catch((err) => {
+      console.error("[Discovery] Failed to list models:", err instanceof Error ? err.message : err);
+    });
+
+  setInterval(refresh, REFRESH_INTERVAL_MS).unref();
+  refresh();
+}
@@ -0,0 +1,85 @@
+/**
+ * Model fallback: a request walks its model's fallback chain when a model is
+ * rate limited, out of capacity or too slow to respond
+ */
+
+import { AntigravityApiError, type StreamChunk } from "./client";
+import { ContextLengthError } from "./tokens";
+
+// How long a model may take to start streaming before the next one is tried
+export const FALLBACK_TIMEOUT_MS = Number(process.env.FALLBACK_TIMEOUT_MS) || 60 * 1000;
+
+/**
+ * A streamed request that failed before producing any output
+ */
+export class StreamStartError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "StreamStartError";
+  }
+}
+
+/**
+ * Why a failed attempt should move on to the next model, or null if the
+ * error would fail on any model
+ */
+function fallbackReason(error: unknown, timedOut: boolean): string | null {
+  if (timedOut) return "timed out";
+  if (error instanceof ContextLengthError) return "prompt too long";
+  if (error instanceof AntigravityApiError && error.isQuotaError) return "out of quota";
+
+  const status = error instanceof AntigravityApiError || error instanceof StreamStartError ? error.status : undefined;
+  if (status === 429) return "out of quota";
+  if (status !== undefined && status >= 500) return `upstream error ${status}`;
+  return null;
+}
+
+/**
+ * Run an attempt against each model in turn until one succeeds. With a
+ * `timeoutMs`, attempts before the last are aborted through `signal` if they
+ * don't resolve in time; it is meant for stream starts, since a complete
+ * response can legitimately take much longer. The last model's error, or one
+ * that no other model would avoid, is thrown.
+ */
+export async function withFallback<T>(
+  models: string[],
+  attempt: (model: string, signal: AbortSignal) => Promise<T>,
+  timeoutMs?: number
+): Promise<{ model: string; result: T }> {
+  for (const [i, model] of models.entries()) {
+    const isLast = i === models.length - 1;
+    const controller = new AbortController();
+    const timer = isLast || !timeoutMs ? null : setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return { model, result: await attempt(model, controller.signal) };
+    } catch (error) {
+      const reason = isLast ? null : fallbackReason(error, controller.signal.aborted);
+      if (!reason) throw error;
+      console.log(`[Fallback] ${model} ${reason}, trying ${models[i + 1]}`);
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  throw new Error("No models to try");
+}
+
+/**
+ * Wait for a stream's first chunk, throwing StreamStartError if the model
+ * failed before producing anything so that the next model can be tried
+ */
+export async function startStream(chunks: AsyncGenerator<StreamChunk>): Promise<AsyncGenerator<StreamChunk>> {
+  const first = await chunks.next();
+  if (!first.done && first.value.type === "error") {
+    throw new StreamStartError(first.value.error || "Unknown error", first.value.status);
+  }
+
+  return (async function* () {
+    if (!first.done) yield first.value;
+    yield* chunks;
+  })();
+}
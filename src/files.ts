@@ -0,0 +1,160 @@
+/**
+ * Local file store backing the OpenAI Files API
+ */
+
+import { join } from "path";
+import { mkdir, readdir, readFile, writeFile, unlink } from "fs/promises";
+import type { ApiKey } from "./keystore";
+import { CONFIG_DIR } from "./storage";
+
+const FILES_DIR = join(CONFIG_DIR, "files");
+
+// Largest upload accepted, in bytes
+export const FILES_MAX_BYTES = Number(process.env.FILES_MAX_BYTES) || 100 * 1024 * 1024;
+
+/**
+ * A stored file in OpenAI's file object format
+ */
+export interface FileObject {
+  id: string;
+  object: "file";
+  bytes: number;
+  created_at: number;
+  filename: string;
+  purpose: string;
+  status: "processed";
+}
+
+/**
+ * File metadata kept next to each blob
+ */
+interface StoredFile extends FileObject {
+  mime_type: string;
+  owner: string;
+}
+
+/**
+ * Owner id used to scope files to the API key that uploaded them
+ */
+function ownerOf(apiKey: ApiKey | null): string {
+  return apiKey?.id || "anonymous";
+}
+
+function blobPath(id: string): string {
+  return join(FILES_DIR, id);
+}
+
+function metadataPath(id: string): string {
+  return join(FILES_DIR, `${id}.json`);
+}
+
+/**
+ * Strip internal fields from stored metadata
+ */
+function toFileObject(file: StoredFile): FileObject {
+  const { mime_type: _, owner: __, ...fileObject } = file;
+  return fileObject;
+}
+
+/**
+ * Load a file's metadata if it exists and belongs to the key
+ */
+async function loadMetadata(id: string, apiKey: ApiKey | null): Promise<StoredFile | null> {
+  if (!/^file-[a-f0-9]+$/.test(id)) return null;
+
+  try {
+    const file = JSON.parse(await readFile(metadataPath(id), "utf-8")) as StoredFile;
+    return file.owner === ownerOf(apiKey) ? file : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store an uploaded file
+ */
+export async function createFile(
+  data: Uint8Array,
+  filename: string,
+  purpose: string,
+  mimeType: string,
+  apiKey: ApiKey | null
+): Promise<FileObject> {
+  await mkdir(FILES_DIR, { recursive: true });
+
+  const file: StoredFile = {
+    id: `file-${crypto.randomUUID().replace(/-/g, "")}`,
+    object: "file",
+    bytes: data.length,
+    created_at: Math.floor(Date.now() / 1000),
+    filename,
+    purpose,
+    status: "processed",
+    mime_type: mimeType,
+    owner: ownerOf(apiKey),
+  };
+
+  await writeFile(blobPath(file.id), data, { mode: 0o600 });
+  await writeFile(metadataPath(file.id), JSON.stringify(file, null, 2), { encoding: "utf-8", mode: 0o600 });
+
+  return toFileObject(file);
+}
+
+/**
+ * List a key's files, newest first
+ */
+export async function listFiles(apiKey: ApiKey | null, purpose?: string): Promise<FileObject[]> {
+  let names: string[];
+  try {
+    names = await readdir(FILES_DIR);
+  } catch {
+    return [];
+  }
+
+  const files = await Promise.all(
+    names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => loadMetadata(name.slice(0, -".json".length), apiKey))
+  );
+
+  return files
+    .filter((file): file is StoredFile => file !== null && (!purpose || file.purpose === purpose))
+    .sort((a, b) => b.created_at - a.created_at)
+    .map(toFileObject);
+}
+
+/**
+ * Get a file's metadata
+ */
+export async function getFile(id: string, apiKey: ApiKey | null): Promise<FileObject | null> {
+  const file = await loadMetadata(id, apiKey);
+  return file ? toFileObject(file) : null;
+}
+
+/**
+ * Read a file's contents along with its MIME type
+ */
+export async function readFileContent(
+  id: string,
+  apiKey: ApiKey | null
+): Promise<{ file: FileObject; mimeType: string; data: Buffer } | null> {
+  const file = await loadMetadata(id, apiKey);
+  if (!file) return null;
+
+  try {
+    return { file: toFileObject(file), mimeType: file.mime_type, data: await readFile(blobPath(id)) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete a file
+ */
+export async function deleteFile(id: string, apiKey: ApiKey | null): Promise<boolean> {
+  if (!(await loadMetadata(id, apiKey))) return false;
+
+  await unlink(blobPath(id)).catch(() => { });
+  await unlink(metadataPath(id));
+  return true;
+}
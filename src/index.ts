@@ -5,39 +5,185 @@
 
 import { Elysia, t } from "elysia";
 import { cors } from "@elysiajs/cors";
-import { AVAILABLE_MODELS } from "./constants";
-import { client } from "./client";
+import { AVAILABLE_MODELS, fallbackChain, watchModels, type ModelInfo } from "./models";
+import { client, type StreamChunk } from "./client";
 import {
   convertOpenAIToAntigravity,
   convertAntigravityToOpenAI,
   createStreamChunk,
+  createUsageChunk,
+  findInvalidParameter,
+  findUnsupportedParameter,
   formatSSE,
   formatSSEDone,
+  replayChatCompletionSSE,
   type OpenAIChatRequest,
 } from "./converter";
+import {
+  convertAnthropicToAntigravity,
+  convertAntigravityToAnthropic,
+  formatAnthropicSSE,
+  streamAntigravityToAnthropic,
+  type AnthropicMessagesRequest,
+} from "./anthropic";
+import {
+  convertChatToResponse,
+  convertResponsesToChat,
+  formatResponsesSSE,
+  streamAntigravityToResponses,
+  type ResponsesRequest,
+} from "./responses";
+import { BATCH_ENDPOINTS, cancelBatch, createBatch, getBatch, listBatches, startBatchWorker } from "./batches";
+import { getLastDiscovery, getModelStatus, startModelDiscovery } from "./discovery";
+import { FALLBACK_TIMEOUT_MS, startStream, StreamStartError, withFallback } from "./fallback";
+import { authenticateKey, extractKey, isKeyAuthEnabled, isModelAllowed } from "./keystore";
+import { createFile, deleteFile, FILES_MAX_BYTES, getFile, listFiles, readFileContent } from "./files";
+import { MediaError, mimeTypeForFilename, resolveAnthropicMedia, resolveMediaInputs } from "./media";
+import { checkRateLimit } from "./ratelimit";
+import { recordSignatures } from "./signatures";
+import { activeCooldowns } from "./storage";
+import { ContextLengthError, countTokens, DEFAULT_TRUNCATION, fitContext } from "./tokens";
+import { cacheDirectives, cacheResponse, cacheStream, getCachedResponse, responseCacheKey } from "./responsecache";
+import { queryUsage, tokensFromResponse, trackUsage, type UsageGroup } from "./usage";
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 8080;
 
 // Initialize the Antigravity client
 await client.initialize();
 
+// Resume queued batches
+startBatchWorker();
+
+// Pick up model config changes
+watchModels();
+
+// Track which models the accounts can use
+startModelDiscovery();
+
+/**
+ * A model as listed by /v1/models
+ */
+function formatModel(model: ModelInfo) {
+  return {
+    id: model.id,
+    object: "model",
+    created: model.created,
+    owned_by: model.owned_by,
+    display_name: model.display_name,
+    description: model.description,
+    type: model.type,
+    context_length: model.context_length,
+    ...(model.max_output_tokens ? { max_output_tokens: model.max_output_tokens } : {}),
+  };
+}
+
+/**
+ * A stream that fails straight away, for a model that failed before starting
+ */
+async function* streamError(message: string): AsyncGenerator<StreamChunk> {
+  yield { type: "error", error: message };
+}
+
+/**
+ * Error body for a file that doesn't exist or belongs to another key
+ */
+function fileNotFound(id: string, param = "id") {
+  return {
+    error: {
+      message: `No such File object: ${id}`,
+      type: "invalid_request_error",
+      param,
+      code: "file_not_found",
+    },
+  };
+}
+
+/**
+ * Error body for a batch that doesn't exist or belongs to another key
+ */
+function batchNotFound(id: string) {
+  return {
+    error: {
+      message: `No such Batch object: ${id}`,
+      type: "invalid_request_error",
+      param: "id",
+      code: "batch_not_found",
+    },
+  };
+}
+
 const app = new Elysia()
   .use(cors())
+  // Resolve the client API key presented with the request
+  .derive(async ({ headers, query }) => ({
+    apiKey: await authenticateKey(extractKey(headers) || query.key),
+  }))
+
+  // Enforce client API keys, per-key model access and rate limits on API routes
+  .onBeforeHandle(async ({ request, path, apiKey, body, params, set }) => {
+    if (!path.startsWith("/v1/") && !path.startsWith("/v1beta/")) return;
+    if (!(await isKeyAuthEnabled())) return;
+
+    if (!apiKey) {
+      set.status = 401;
+      return {
+        error: {
+          message: "Incorrect API key provided. Pass a valid key in the Authorization header.",
+          type: "invalid_request_error",
+          code: "invalid_api_key",
+        },
+      };
+    }
+
+    const routeParams = (params || {}) as { model?: string; target?: string };
+    const model =
+      (body as { model?: unknown } | undefined)?.model ??
+      routeParams.model ??
+      routeParams.target?.split(":")[0];
+
+    // Only generation requests are checked for model access (model lookups
+    // hide disallowed models themselves) and count against rate limits
+    if (request.method !== "POST") return;
+
+    if (typeof model === "string" && !isModelAllowed(apiKey, model)) {
+      set.status = 403;
+      return {
+        error: {
+          message: `This API key does not have access to model '${model}'.`,
+          type: "invalid_request_error",
+          code: "model_not_allowed",
+        },
+      };
+    }
+
+    const limit = checkRateLimit(apiKey);
+    Object.assign(set.headers, limit.headers);
+
+    if (!limit.allowed) {
+      set.status = 429;
+      return {
+        error: {
+          message:
+            limit.reason === "tokens"
+              ? "Rate limit reached for tokens per day. Please try again later."
+              : "Rate limit reached for requests per minute. Please try again later.",
+          type: limit.reason,
+          code: "rate_limit_exceeded",
+        },
+      };
+    }
+  })
+
   // Health check
   .get("/health", () => ({ status: "ok" }))
 
   // List models (OpenAI compatible)
-  .get("/v1/models", () => {
-    const models = Object.values(AVAILABLE_MODELS).map((model) => ({
-      id: model.id,
-      object: "model",
-      created: Math.floor(Date.now() / 1000),
-      owned_by: model.owned_by,
-      display_name: model.display_name,
-      description: model.description,
-      type: model.type,
-      context_length: model.context_length,
-    }));
+  .get("/v1/models", ({ apiKey }) => {
+    const models = Object.keys(AVAILABLE_MODELS)
+      .filter((id) => isModelAllowed(apiKey, id))
+      .map((id) => getModelStatus(id)!)
+      .filter((status) => status.available)
+      .map((status) => formatModel(status.model));
 
     return {
       object: "list",
@@ -46,14 +192,17 @@ const app = new Elysia()
   })
 
   // Get specific model
-  .get("/v1/models/:model", ({ params }) => {
-    const modelInfo = AVAILABLE_MODELS[params.model as keyof typeof AVAILABLE_MODELS];
+  .get("/v1/models/:model", ({ params, apiKey }) => {
+    // Models the key may not use are reported as missing, as in the listing
+    const status = isModelAllowed(apiKey, params.model) ? getModelStatus(params.model) : null;
 
-    if (!modelInfo) {
+    if (!status?.available) {
       return new Response(
         JSON.stringify({
           error: {
-            message: `Model '${params.model}' not found`,
+            message: status
+              ? `Model '${params.model}' is unavailable: ${status.reason}`
+              : `Model '${params.model}' not found`,
             type: "invalid_request_error",
             code: "model_not_found",
           },
@@ -62,18 +211,13 @@ const app = new Elysia()
       );
     }
 
-    return {
-      id: modelInfo.id,
-      object: "model",
-      created: Math.floor(Date.now() / 1000),
-      owned_by: modelInfo.owned_by,
-    };
+    return formatModel(status.model);
   })
 
   // Chat completions (OpenAI compatible)
   .post(
     "/v1/chat/completions",
-    async ({ body, set }) => {
+    async ({ body, headers, apiKey, set }) => {
       // Check authentication
       if (!client.hasValidTokens()) {
         set.status = 401;
@@ -88,8 +232,11 @@ const app = new Elysia()
 
       const request = body as OpenAIChatRequest;
 
-      // Validate model
-      if (!AVAILABLE_MODELS[request.model as keyof typeof AVAILABLE_MODELS]) {
+      // Validate model, which may be a virtual id for a fallback chain, and
+      // drop fallbacks the key may not use
+      const fullChain = fallbackChain(request.model);
+      const chain = fullChain.filter((model) => isModelAllowed(apiKey, model));
+      if (fullChain.length === 0) {
         set.status = 400;
         return {
           error: {
@@ -99,57 +246,247 @@ const app = new Elysia()
           },
         };
       }
+      if (chain.length === 0) {
+        set.status = 403;
+        return {
+          error: {
+            message: `This API key does not have access to any model in '${request.model}'.`,
+            type: "invalid_request_error",
+            code: "model_not_allowed",
+          },
+        };
+      }
 
-      // Convert to Antigravity format
-      const antigravityRequest = convertOpenAIToAntigravity(request);
+      const invalid = findInvalidParameter(request);
+      if (invalid) {
+        set.status = 400;
+        return {
+          error: {
+            message: invalid.message,
+            type: "invalid_request_error",
+            param: invalid.param,
+            code: "invalid_parameter",
+          },
+        };
+      }
+
+      // Reject parameters the model can't honour rather than ignoring them;
+      // fallbacks that can't honour them are skipped
+      const supported = chain.filter((model) => !findUnsupportedParameter({ ...request, model }));
+      const unsupported = supported.length === 0 && findUnsupportedParameter({ ...request, model: chain[0] });
+      if (unsupported) {
+        set.status = 400;
+        return {
+          error: {
+            message: unsupported.message,
+            type: "invalid_request_error",
+            param: unsupported.param,
+            code: "unsupported_parameter",
+          },
+        };
+      }
+
+      // Reasoning is included unless the client opts out via body flag or header
+      const includeReasoning =
+        request.include_reasoning ?? headers["x-include-reasoning"] !== "false";
+
+      // Fetch remote images and validate multimodal inputs
+      try {
+        await resolveMediaInputs(request.messages, apiKey);
+      } catch (error) {
+        if (!(error instanceof MediaError)) throw error;
+        set.status = 400;
+        return {
+          error: {
+            message: error.message,
+            type: "invalid_request_error",
+            param: error.param,
+            code: error.code,
+          },
+        };
+      }
+
+      // Skip models the accounts are known to be out of quota for, unless that's all of them
+      const available = supported.filter((model) => getModelStatus(model)?.available);
+      const candidates = available.length > 0 ? available : supported;
+
+      // Convert to Antigravity format for a model's family, then reject, or
+      // trim, prompts that don't fit its context window
+      const prepare = async (model: string) => {
+        const antigravityRequest = convertOpenAIToAntigravity({ ...request, model });
+        await fitContext(model, antigravityRequest, request.truncation ?? DEFAULT_TRUNCATION);
+        return antigravityRequest;
+      };
+
+      // Prepared up front, falling back past models the prompt doesn't fit,
+      // so the first model that can take it can be answered from the cache
+      let models: string[];
+      let antigravityRequest: Awaited<ReturnType<typeof prepare>>;
+      try {
+        const first = await withFallback(candidates, (model) => prepare(model));
+        models = candidates.slice(candidates.indexOf(first.model));
+        antigravityRequest = first.result;
+      } catch (error) {
+        if (!(error instanceof ContextLengthError)) throw error;
+        set.status = 400;
+        return {
+          error: {
+            message: error.message,
+            type: "invalid_request_error",
+            param: "messages",
+            code: "context_length_exceeded",
+          },
+        };
+      }
+
+      // Requests for other models are prepared when they're tried
+      const requestFor = (model: string) => (model === models[0] ? antigravityRequest : prepare(model));
+      set.headers["x-served-model"] = models[0];
+
+      // Serve repeated deterministic requests from the response cache
+      const cacheKey = responseCacheKey(models[0], antigravityRequest);
+      const directives = cacheDirectives(headers["cache-control"]);
+      const storeKey = directives.write ? cacheKey : null;
+      if (cacheKey) {
+        const cached = directives.read ? getCachedResponse(cacheKey) : null;
+        set.headers["x-cache"] = !directives.read ? "BYPASS" : cached ? "HIT" : "MISS";
+
+        if (cached) {
+          const openAIResponse = convertAntigravityToOpenAI(
+            cached as Parameters<typeof convertAntigravityToOpenAI>[0],
+            models[0],
+            undefined,
+            includeReasoning
+          );
+          if (!request.stream) return openAIResponse;
+
+          return new Response(
+            replayChatCompletionSSE(openAIResponse, request.stream_options?.include_usage),
+            {
+              headers: {
+                "Content-Type": "text/event-stream",
+                "Cache-Control": "no-cache",
+                Connection: "keep-alive",
+                "x-served-model": models[0],
+              },
+            }
+          );
+        }
+      }
+
+      const usage = trackUsage(apiKey, "chat.completions", models[0]);
 
       try {
         if (request.stream) {
+          // Start the first model that responds in time; a failure before any
+          // output moves on to the next, and the last one's is streamed as an error
+          let attempted = models[0];
+          const { model: servedModel, result: upstream } = await withFallback(
+            models,
+            async (model, signal) => {
+              attempted = model;
+              return startStream(client.streamGenerateContent(model, await requestFor(model), signal));
+            },
+            FALLBACK_TIMEOUT_MS
+          ).catch((error) => {
+            if (!(error instanceof StreamStartError)) throw error;
+            return { model: attempted, result: streamError(error.message) };
+          });
+          usage.servedBy(servedModel);
+
           // Streaming response
           const id = `chatcmpl-${crypto.randomUUID()}`;
           let isFirst = true;
+          let toolCallIndex = 0;
           let promptTokens = 0;
           let completionTokens = 0;
+          let cachedTokens = 0;
+          const signatures = recordSignatures();
 
           const stream = new ReadableStream({
             async start(controller) {
               const encoder = new TextEncoder();
 
               try {
-                for await (const chunk of client.streamGenerateContent(
-                  request.model,
-                  antigravityRequest
+                const cacheable = storeKey && servedModel === models[0];
+                for await (const chunk of usage.meter(
+                  cacheable ? cacheStream(storeKey, servedModel, upstream) : upstream
                 )) {
+                  if (chunk.type === "content") {
+                    signatures.content(chunk.content || "", chunk.signature);
+                  }
+
                   if (chunk.type === "content" && chunk.content) {
                     const sseChunk = createStreamChunk(
                       id,
-                      request.model,
+                      servedModel,
                       chunk.content,
                       isFirst
                     );
                     controller.enqueue(encoder.encode(formatSSE(sseChunk)));
                     isFirst = false;
-                  } else if (chunk.type === "thinking" && chunk.thinking) {
-                    // Optionally include thinking in a custom field or skip
-                    // For now, we'll include it as regular content prefixed with [Thinking]
-                    // You can customize this behavior
+                  } else if (chunk.type === "tool_call" && chunk.toolCall) {
+                    const toolCallId = chunk.toolCall.id || `call_${crypto.randomUUID().slice(0, 8)}`;
+                    signatures.toolCall(toolCallId, chunk.signature);
+                    const sseChunk = createStreamChunk(
+                      id,
+                      servedModel,
+                      {
+                        tool_calls: [
+                          {
+                            index: toolCallIndex,
+                            id: toolCallId,
+                            type: "function",
+                            function: {
+                              name: chunk.toolCall.name,
+                              arguments: JSON.stringify(chunk.toolCall.args),
+                            },
+                          },
+                        ],
+                      },
+                      isFirst
+                    );
+                    controller.enqueue(encoder.encode(formatSSE(sseChunk)));
+                    isFirst = false;
+                    toolCallIndex++;
+                  } else if (chunk.type === "thinking") {
+                    signatures.thinking(chunk.thinking || "", chunk.signature);
+                    if (includeReasoning && chunk.thinking) {
+                      const sseChunk = createStreamChunk(
+                        id,
+                        servedModel,
+                        { reasoning_content: chunk.thinking },
+                        isFirst
+                      );
+                      controller.enqueue(encoder.encode(formatSSE(sseChunk)));
+                      isFirst = false;
+                    }
                   } else if (chunk.type === "done") {
-                    // Send final chunk with finish_reason
+                    signatures.finish();
+
+                    // Send final chunk with finish_reason, carrying usage unless
+                    // it gets its own chunk
+                    const includeUsage = request.stream_options?.include_usage;
+                    const totals = {
+                      prompt_tokens: promptTokens,
+                      completion_tokens: completionTokens,
+                      total_tokens: promptTokens + completionTokens,
+                      ...(cachedTokens ? { prompt_tokens_details: { cached_tokens: cachedTokens } } : {}),
+                    };
                     const finalChunk = createStreamChunk(
                       id,
-                      request.model,
+                      servedModel,
                       undefined,
                       false,
-                      "stop",
-                      promptTokens || completionTokens
-                        ? {
-                          prompt_tokens: promptTokens,
-                          completion_tokens: completionTokens,
-                          total_tokens: promptTokens + completionTokens,
-                        }
-                        : undefined
+                      chunk.finishReason === "MAX_TOKENS" ? "length" : toolCallIndex > 0 ? "tool_calls" : "stop",
+                      !includeUsage && (promptTokens || completionTokens) ? totals : undefined
                     );
                     controller.enqueue(encoder.encode(formatSSE(finalChunk)));
+                    if (includeUsage) {
+                      controller.enqueue(
+                        encoder.encode(formatSSE(createUsageChunk(id, servedModel, totals)))
+                      );
+                    }
                     controller.enqueue(encoder.encode(formatSSEDone()));
                     controller.close();
                     return;
@@ -169,6 +506,7 @@ const app = new Elysia()
                   if (chunk.usage) {
                     promptTokens = chunk.usage.promptTokens || promptTokens;
                     completionTokens = chunk.usage.completionTokens || completionTokens;
+                    cachedTokens = chunk.usage.cachedTokens || cachedTokens;
                   }
                 }
               } catch (error) {
@@ -190,20 +528,46 @@ const app = new Elysia()
               "Content-Type": "text/event-stream",
               "Cache-Control": "no-cache",
               Connection: "keep-alive",
+              "x-served-model": servedModel,
             },
           });
         } else {
-          // Non-streaming response
-          const response = await client.generateContent(request.model, antigravityRequest);
+          // Non-streaming response, from the first model in the chain that succeeds
+          const { model: servedModel, result: response } = await withFallback(
+            models,
+            async (model, signal) => client.generateContent(model, await requestFor(model), signal)
+          );
+          usage.servedBy(servedModel);
+          set.headers["x-served-model"] = servedModel;
+          if (storeKey && servedModel === models[0]) {
+            cacheResponse(storeKey, servedModel, response);
+          }
           const openAIResponse = convertAntigravityToOpenAI(
             response as Parameters<typeof convertAntigravityToOpenAI>[0],
-            request.model
+            servedModel,
+            undefined,
+            includeReasoning
           );
+          usage.finish(tokensFromResponse(response), "success");
           return openAIResponse;
         }
       } catch (error) {
+        // Every fallback was tried and the last one's context window is too small
+        if (error instanceof ContextLengthError) {
+          set.status = 400;
+          return {
+            error: {
+              message: error.message,
+              type: "invalid_request_error",
+              param: "messages",
+              code: "context_length_exceeded",
+            },
+          };
+        }
+
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         console.error("[ChatCompletions] Error:", errorMessage);
+        usage.finish(undefined, "error", errorMessage);
 
         set.status = 500;
         return {
@@ -230,6 +594,20 @@ const app = new Elysia()
                   image_url: t.Optional(
                     t.Object({
                       url: t.String(),
+                      detail: t.Optional(t.String()),
+                    })
+                  ),
+                  file: t.Optional(
+                    t.Object({
+                      file_data: t.Optional(t.String()),
+                      file_id: t.Optional(t.String()),
+                      filename: t.Optional(t.String()),
+                    })
+                  ),
+                  input_audio: t.Optional(
+                    t.Object({
+                      data: t.String(),
+                      format: t.String(),
                     })
                   ),
                 })
@@ -254,7 +632,21 @@ const app = new Elysia()
         temperature: t.Optional(t.Number()),
         top_p: t.Optional(t.Number()),
         max_tokens: t.Optional(t.Number()),
+        max_completion_tokens: t.Optional(t.Number()),
+        stop: t.Optional(t.Union([t.String(), t.Array(t.String())])),
+        n: t.Optional(t.Integer({ minimum: 1 })),
+        seed: t.Optional(t.Integer()),
+        presence_penalty: t.Optional(t.Number()),
+        frequency_penalty: t.Optional(t.Number()),
+        logprobs: t.Optional(t.Boolean()),
+        top_logprobs: t.Optional(t.Integer({ minimum: 0, maximum: 20 })),
+        user: t.Optional(t.String()),
         stream: t.Optional(t.Boolean()),
+        stream_options: t.Optional(
+          t.Object({
+            include_usage: t.Optional(t.Boolean()),
+          })
+        ),
         tools: t.Optional(
           t.Array(
             t.Object({
@@ -268,20 +660,706 @@ const app = new Elysia()
           )
         ),
         tool_choice: t.Optional(t.Any()),
+        reasoning_effort: t.Optional(
+          t.Union([
+            t.Literal("none"),
+            t.Literal("minimal"),
+            t.Literal("low"),
+            t.Literal("medium"),
+            t.Literal("high"),
+          ])
+        ),
+        thinking: t.Optional(
+          t.Object({
+            type: t.Optional(t.Union([t.Literal("enabled"), t.Literal("disabled")])),
+            budget_tokens: t.Optional(t.Integer({ minimum: 0 })),
+          })
+        ),
+        response_format: t.Optional(
+          t.Object({
+            type: t.Union([t.Literal("text"), t.Literal("json_object"), t.Literal("json_schema")]),
+            json_schema: t.Optional(t.Any()),
+          })
+        ),
+        include_reasoning: t.Optional(t.Boolean()),
+        truncation: t.Optional(t.Union([t.Literal("auto"), t.Literal("disabled")])),
+      }),
+    }
+  )
+
+  // Responses (OpenAI compatible)
+  .post(
+    "/v1/responses",
+    async ({ body, headers, apiKey, set }) => {
+      // Check authentication
+      if (!client.hasValidTokens()) {
+        set.status = 401;
+        return {
+          error: {
+            message: "Not authenticated. Run 'bun run auth' to authenticate with Google.",
+            type: "authentication_error",
+            code: "not_authenticated",
+          },
+        };
+      }
+
+      const request = body as ResponsesRequest;
+
+      // Validate model
+      if (!AVAILABLE_MODELS[request.model]) {
+        set.status = 400;
+        return {
+          error: {
+            message: `Model '${request.model}' is not available. Use /v1/models to list available models.`,
+            type: "invalid_request_error",
+            code: "model_not_found",
+          },
+        };
+      }
+
+      const includeReasoning = headers["x-include-reasoning"] !== "false";
+
+      // Convert through the chat completions pipeline
+      const chatRequest = convertResponsesToChat(request);
+
+      // Fetch remote images and validate multimodal inputs
+      try {
+        await resolveMediaInputs(chatRequest.messages, apiKey);
+      } catch (error) {
+        if (!(error instanceof MediaError)) throw error;
+        set.status = 400;
+        return {
+          error: {
+            message: error.message,
+            type: "invalid_request_error",
+            param: error.param,
+            code: error.code,
+          },
+        };
+      }
+
+      const antigravityRequest = convertOpenAIToAntigravity(chatRequest);
+
+      try {
+        await fitContext(request.model, antigravityRequest, request.truncation ?? DEFAULT_TRUNCATION);
+      } catch (error) {
+        if (!(error instanceof ContextLengthError)) throw error;
+        set.status = 400;
+        return {
+          error: {
+            message: error.message,
+            type: "invalid_request_error",
+            param: "input",
+            code: "context_length_exceeded",
+          },
+        };
+      }
+
+      const usage = trackUsage(apiKey, "responses", request.model);
+
+      try {
+        if (request.stream) {
+          const stream = new ReadableStream({
+            async start(controller) {
+              const encoder = new TextEncoder();
+
+              try {
+                for await (const event of streamAntigravityToResponses(
+                  usage.meter(client.streamGenerateContent(request.model, antigravityRequest)),
+                  request,
+                  includeReasoning
+                )) {
+                  controller.enqueue(encoder.encode(event));
+                }
+              } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error";
+                controller.enqueue(
+                  encoder.encode(
+                    formatResponsesSSE({ type: "error", code: "server_error", message: errorMessage })
+                  )
+                );
+              }
+              controller.close();
+            },
+          });
+
+          return new Response(stream, {
+            headers: {
+              "Content-Type": "text/event-stream",
+              "Cache-Control": "no-cache",
+              Connection: "keep-alive",
+            },
+          });
+        } else {
+          const response = await client.generateContent(request.model, antigravityRequest);
+          const chatResponse = convertAntigravityToOpenAI(
+            response as Parameters<typeof convertAntigravityToOpenAI>[0],
+            request.model,
+            undefined,
+            includeReasoning
+          );
+          usage.finish(tokensFromResponse(response), "success");
+          return convertChatToResponse(chatResponse, request);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("[Responses] Error:", errorMessage);
+        usage.finish(undefined, "error", errorMessage);
+
+        set.status = 500;
+        return {
+          error: {
+            message: errorMessage,
+            type: "api_error",
+            code: "internal_error",
+          },
+        };
+      }
+    },
+    {
+      body: t.Object({
+        model: t.String(),
+        input: t.Union([t.String(), t.Array(t.Any())]),
+        instructions: t.Optional(t.String()),
+        temperature: t.Optional(t.Number()),
+        top_p: t.Optional(t.Number()),
+        max_output_tokens: t.Optional(t.Number()),
+        stream: t.Optional(t.Boolean()),
+        tools: t.Optional(t.Array(t.Any())),
+        tool_choice: t.Optional(t.Any()),
+        reasoning: t.Optional(t.Any()),
+        text: t.Optional(t.Any()),
+        metadata: t.Optional(t.Any()),
+        store: t.Optional(t.Boolean()),
+        truncation: t.Optional(t.Union([t.Literal("auto"), t.Literal("disabled")])),
+      }),
+    }
+  )
+
+  // Messages (Anthropic compatible)
+  .post(
+    "/v1/messages",
+    async ({ body, apiKey, set }) => {
+      // Check authentication
+      if (!client.hasValidTokens()) {
+        set.status = 401;
+        return {
+          type: "error",
+          error: {
+            type: "authentication_error",
+            message: "Not authenticated. Run 'bun run auth' to authenticate with Google.",
+          },
+        };
+      }
+
+      const request = body as AnthropicMessagesRequest;
+
+      // Validate model
+      if (!AVAILABLE_MODELS[request.model]) {
+        set.status = 404;
+        return {
+          type: "error",
+          error: {
+            type: "not_found_error",
+            message: `Model '${request.model}' is not available. Use /v1/models to list available models.`,
+          },
+        };
+      }
+
+      // Fetch images given by URL
+      try {
+        await resolveAnthropicMedia(request.messages);
+      } catch (error) {
+        if (!(error instanceof MediaError)) throw error;
+        set.status = 400;
+        return {
+          type: "error",
+          error: {
+            type: "invalid_request_error",
+            message: `${error.param}: ${error.message}`,
+          },
+        };
+      }
+
+      // Convert to Antigravity format
+      const antigravityRequest = convertAnthropicToAntigravity(request);
+
+      try {
+        await fitContext(request.model, antigravityRequest, DEFAULT_TRUNCATION);
+      } catch (error) {
+        if (!(error instanceof ContextLengthError)) throw error;
+        set.status = 400;
+        return {
+          type: "error",
+          error: {
+            type: "invalid_request_error",
+            message: `prompt is too long: ${error.promptTokens} tokens > ${error.limit - error.completionTokens} maximum`,
+          },
+        };
+      }
+
+      const usage = trackUsage(apiKey, "messages", request.model);
+
+      try {
+        if (request.stream) {
+          const stream = new ReadableStream({
+            async start(controller) {
+              const encoder = new TextEncoder();
+
+              try {
+                for await (const event of streamAntigravityToAnthropic(
+                  usage.meter(client.streamGenerateContent(request.model, antigravityRequest)),
+                  request.model
+                )) {
+                  controller.enqueue(encoder.encode(event));
+                }
+              } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error";
+                controller.enqueue(
+                  encoder.encode(
+                    formatAnthropicSSE("error", {
+                      type: "error",
+                      error: { type: "api_error", message: errorMessage },
+                    })
+                  )
+                );
+              }
+              controller.close();
+            },
+          });
+
+          return new Response(stream, {
+            headers: {
+              "Content-Type": "text/event-stream",
+              "Cache-Control": "no-cache",
+              Connection: "keep-alive",
+            },
+          });
+        } else {
+          const response = await client.generateContent(request.model, antigravityRequest);
+          usage.finish(tokensFromResponse(response), "success");
+          return convertAntigravityToAnthropic(
+            response as Parameters<typeof convertAntigravityToAnthropic>[0],
+            request.model
+          );
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("[Messages] Error:", errorMessage);
+        usage.finish(undefined, "error", errorMessage);
+
+        set.status = 500;
+        return {
+          type: "error",
+          error: {
+            type: "api_error",
+            message: errorMessage,
+          },
+        };
+      }
+    },
+    {
+      body: t.Object({
+        model: t.String(),
+        messages: t.Array(
+          t.Object({
+            role: t.Union([t.Literal("user"), t.Literal("assistant")]),
+            content: t.Union([t.String(), t.Array(t.Any())]),
+          })
+        ),
+        system: t.Optional(t.Union([t.String(), t.Array(t.Any())])),
+        max_tokens: t.Number(),
+        temperature: t.Optional(t.Number()),
+        top_p: t.Optional(t.Number()),
+        top_k: t.Optional(t.Number()),
+        stop_sequences: t.Optional(t.Array(t.String())),
+        stream: t.Optional(t.Boolean()),
+        tools: t.Optional(t.Array(t.Any())),
+        tool_choice: t.Optional(t.Any()),
+        thinking: t.Optional(t.Any()),
+        metadata: t.Optional(t.Any()),
+      }),
+    }
+  )
+
+  // Native Gemini API passthrough (generateContent, streamGenerateContent, countTokens)
+  .post("/v1beta/models/:target", async ({ params, query, body, apiKey, set }) => {
+    const separator = params.target.lastIndexOf(":");
+    const model = params.target.slice(0, separator);
+    const action = params.target.slice(separator + 1);
+
+    const geminiError = (code: number, status: string, message: string) => {
+      set.status = code;
+      return { error: { code, message, status } };
+    };
+
+    if (separator === -1 || !["generateContent", "streamGenerateContent", "countTokens"].includes(action)) {
+      return geminiError(404, "NOT_FOUND", `Unsupported method '${params.target}'`);
+    }
+
+    // Check authentication
+    if (!client.hasValidTokens()) {
+      return geminiError(
+        401,
+        "UNAUTHENTICATED",
+        "Not authenticated. Run 'bun run auth' to authenticate with Google."
+      );
+    }
+
+    // Validate model
+    if (!AVAILABLE_MODELS[model]) {
+      return geminiError(404, "NOT_FOUND", `Model '${model}' is not available.`);
+    }
+
+    const request = body as Parameters<typeof client.generateContentRaw>[1];
+
+    if (action === "countTokens") {
+      try {
+        return await client.countTokens(model, request);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("[Gemini] Error:", errorMessage);
+        return geminiError(500, "INTERNAL", errorMessage);
+      }
+    }
+
+    const usage = trackUsage(apiKey, `gemini.${action}`, model);
+
+    try {
+      if (action === "generateContent") {
+        const response = await client.generateContentRaw(model, request);
+        usage.finish(tokensFromResponse(response), "success");
+        return response;
+      }
+
+      // Wait for the first payload so upstream errors surface as HTTP errors
+      const iterator = client.streamGenerateContentRaw(model, request)[Symbol.asyncIterator]();
+      const first = await iterator.next();
+
+      // Without alt=sse the Gemini API returns the whole stream as a JSON array
+      if (query.alt !== "sse") {
+        const payloads: unknown[] = [];
+        for (let next = first; !next.done; next = await iterator.next()) {
+          payloads.push(next.value);
+        }
+        usage.finish(tokensFromResponse(payloads[payloads.length - 1]), "success");
+        return payloads;
+      }
+
+      const stream = new ReadableStream({
+        async start(controller) {
+          const encoder = new TextEncoder();
+
+          let tokens: ReturnType<typeof tokensFromResponse>;
+
+          try {
+            for (let next = first; !next.done; next = await iterator.next()) {
+              tokens = tokensFromResponse(next.value) ?? tokens;
+              controller.enqueue(encoder.encode(formatSSE(next.value)));
+            }
+            usage.finish(tokens, "success");
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error";
+            usage.finish(tokens, "error", errorMessage);
+            controller.enqueue(
+              encoder.encode(formatSSE({ error: { code: 500, message: errorMessage, status: "INTERNAL" } }))
+            );
+          }
+          controller.close();
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error("[Gemini] Error:", errorMessage);
+      usage.finish(undefined, "error", errorMessage);
+      return geminiError(500, "INTERNAL", errorMessage);
+    }
+  })
+
+  // Count prompt tokens for a chat request
+  .post(
+    "/v1/tokenize",
+    async ({ body, apiKey, set }) => {
+      const request = {
+        model: body.model,
+        messages: body.messages ?? [{ role: "user", content: body.prompt ?? "" }],
+        tools: body.tools,
+      } as OpenAIChatRequest;
+
+      if (!AVAILABLE_MODELS[request.model]) {
+        set.status = 400;
+        return {
+          error: {
+            message: `Model '${request.model}' is not available. Use /v1/models to list available models.`,
+            type: "invalid_request_error",
+            code: "model_not_found",
+          },
+        };
+      }
+
+      try {
+        await resolveMediaInputs(request.messages, apiKey);
+      } catch (error) {
+        if (!(error instanceof MediaError)) throw error;
+        set.status = 400;
+        return {
+          error: {
+            message: error.message,
+            type: "invalid_request_error",
+            param: error.param,
+            code: error.code,
+          },
+        };
+      }
+
+      const { tokens, estimated } = await countTokens(request.model, convertOpenAIToAntigravity(request));
+
+      return {
+        model: request.model,
+        count: tokens,
+        max_model_len: getModelStatus(request.model)!.model.context_length,
+        estimated,
+      };
+    },
+    {
+      body: t.Object({
+        model: t.String(),
+        messages: t.Optional(t.Array(t.Any())),
+        prompt: t.Optional(t.String()),
+        tools: t.Optional(t.Array(t.Any())),
+      }),
+    }
+  )
+
+  // Upload a file (OpenAI compatible)
+  .post(
+    "/v1/files",
+    async ({ body, apiKey, set }) => {
+      if (body.file.size > FILES_MAX_BYTES) {
+        set.status = 400;
+        return {
+          error: {
+            message: `File is ${body.file.size} bytes, larger than the ${FILES_MAX_BYTES} byte limit.`,
+            type: "invalid_request_error",
+            param: "file",
+            code: "file_too_large",
+          },
+        };
+      }
+
+      // Browsers often send a generic type, so fall back to the file extension
+      const declaredType = body.file.type.split(";")[0].trim();
+      const mimeType =
+        (declaredType && declaredType !== "application/octet-stream" ? declaredType : undefined) ||
+        mimeTypeForFilename(body.file.name) ||
+        "application/octet-stream";
+
+      return createFile(
+        new Uint8Array(await body.file.arrayBuffer()),
+        body.file.name || "upload",
+        body.purpose,
+        mimeType,
+        apiKey
+      );
+    },
+    {
+      body: t.Object({
+        file: t.File(),
+        purpose: t.String(),
       }),
     }
   )
 
+  // List files
+  .get("/v1/files", async ({ query, apiKey }) => ({
+    object: "list",
+    data: await listFiles(apiKey, query.purpose),
+    has_more: false,
+  }))
+
+  // Retrieve a file
+  .get("/v1/files/:file_id", async ({ params, apiKey, set }) => {
+    const file = await getFile(params.file_id, apiKey);
+    if (!file) {
+      set.status = 404;
+      return fileNotFound(params.file_id);
+    }
+    return file;
+  })
+
+  // Retrieve a file's contents
+  .get("/v1/files/:file_id/content", async ({ params, apiKey, set }) => {
+    const content = await readFileContent(params.file_id, apiKey);
+    if (!content) {
+      set.status = 404;
+      return fileNotFound(params.file_id);
+    }
+    return new Response(new Uint8Array(content.data), { headers: { "Content-Type": content.mimeType } });
+  })
+
+  // Delete a file
+  .delete("/v1/files/:file_id", async ({ params, apiKey, set }) => {
+    if (!(await deleteFile(params.file_id, apiKey))) {
+      set.status = 404;
+      return fileNotFound(params.file_id);
+    }
+    return { id: params.file_id, object: "file", deleted: true };
+  })
+
+  // Create a batch (OpenAI compatible)
+  .post(
+    "/v1/batches",
+    async ({ body, apiKey, set }) => {
+      const invalid = (message: string, param: string) => {
+        set.status = 400;
+        return { error: { message, type: "invalid_request_error", param, code: "invalid_value" } };
+      };
+
+      if (!BATCH_ENDPOINTS.includes(body.endpoint)) {
+        return invalid(`Unsupported endpoint '${body.endpoint}'. Supported: ${BATCH_ENDPOINTS.join(", ")}.`, "endpoint");
+      }
+      if (body.completion_window !== "24h") {
+        return invalid("completion_window must be '24h'.", "completion_window");
+      }
+
+      const file = await getFile(body.input_file_id, apiKey);
+      if (!file) {
+        set.status = 404;
+        return fileNotFound(body.input_file_id, "input_file_id");
+      }
+      if (file.purpose !== "batch") {
+        return invalid(`File ${file.id} was not uploaded with purpose 'batch'.`, "input_file_id");
+      }
+
+      return createBatch(file.id, body.endpoint, body.completion_window, body.metadata, apiKey);
+    },
+    {
+      body: t.Object({
+        input_file_id: t.String(),
+        endpoint: t.String(),
+        completion_window: t.String(),
+        metadata: t.Optional(t.Record(t.String(), t.String())),
+      }),
+    }
+  )
+
+  // List batches
+  .get("/v1/batches", ({ query, apiKey }) => {
+    const limit = Math.min(Math.max(parseInt(query.limit || "20") || 20, 1), 100);
+    const { data, has_more } = listBatches(apiKey, limit, query.after);
+
+    return {
+      object: "list",
+      data,
+      first_id: data[0]?.id ?? null,
+      last_id: data[data.length - 1]?.id ?? null,
+      has_more,
+    };
+  })
+
+  // Retrieve a batch
+  .get("/v1/batches/:batch_id", ({ params, apiKey, set }) => {
+    const batch = getBatch(params.batch_id, apiKey);
+    if (!batch) {
+      set.status = 404;
+      return batchNotFound(params.batch_id);
+    }
+    return batch;
+  })
+
+  // Cancel a batch
+  .post("/v1/batches/:batch_id/cancel", ({ params, apiKey, set }) => {
+    const batch = getBatch(params.batch_id, apiKey);
+    if (!batch) {
+      set.status = 404;
+      return batchNotFound(params.batch_id);
+    }
+
+    if (batch.status !== "validating" && batch.status !== "in_progress") {
+      set.status = 409;
+      return {
+        error: {
+          message: `Cannot cancel a batch with status '${batch.status}'.`,
+          type: "invalid_request_error",
+          code: "invalid_batch_status",
+        },
+      };
+    }
+
+    return cancelBatch(batch.id);
+  })
+
+  // Usage report
+  .get("/v1/usage", ({ query, apiKey, set }) => {
+    const groupBy = (query.group_by || "day")
+      .split(",")
+      .map((g) => g.trim())
+      .filter(Boolean);
+
+    const invalid = groupBy.filter((g) => !["day", "model", "client", "endpoint"].includes(g));
+    if (invalid.length > 0) {
+      set.status = 400;
+      return {
+        error: {
+          message: `Invalid group_by value(s): ${invalid.join(", ")}. Use day, model, client or endpoint.`,
+          type: "invalid_request_error",
+          code: "invalid_parameter",
+        },
+      };
+    }
+
+    return {
+      object: "list",
+      group_by: groupBy,
+      data: queryUsage({
+        groupBy: groupBy as UsageGroup[],
+        startDate: query.start_date,
+        endDate: query.end_date,
+        model: query.model,
+        // Only admin keys (and an unauthenticated proxy) see other keys' usage
+        client: apiKey && !apiKey.admin ? apiKey.id : query.client,
+      }),
+    };
+  })
+
   // Status endpoint
   .get("/status", async () => {
     const hasTokens = client.hasValidTokens();
-    const tokens = client.getTokens();
+    const accounts = client.getAccounts();
+    const now = Date.now();
 
     return {
       authenticated: hasTokens,
-      email: tokens?.email || null,
-      projectId: tokens?.projectId || null,
-      availableModels: Object.keys(AVAILABLE_MODELS),
+      email: accounts[0]?.email || null,
+      projectId: accounts[0]?.projectId || null,
+      accounts: accounts.map((account) => {
+        // Limited while any model is cooling down, until the last one resets
+        const cooldowns = Object.entries(activeCooldowns(account, now));
+        return {
+          email: account.email || null,
+          projectId: account.projectId,
+          rateLimited: cooldowns.length > 0,
+          rateLimitedUntil:
+            cooldowns.length > 0 ? new Date(Math.max(...cooldowns.map(([, until]) => until))).toISOString() : null,
+          rateLimitedModels: Object.fromEntries(
+            cooldowns.map(([model, until]) => [model, new Date(until).toISOString()])
+          ),
+        };
+      }),
+      availableModels: Object.keys(AVAILABLE_MODELS).filter((id) => getModelStatus(id)!.available),
+      unavailableModels: Object.keys(AVAILABLE_MODELS)
+        .map((id) => getModelStatus(id)!)
+        .filter((status) => !status.available)
+        .map((status) => ({ id: status.model.id, reason: status.reason })),
+      modelsDiscoveredAt: getLastDiscovery()?.toISOString() || null,
     };
   })
 
@@ -296,11 +1374,20 @@ console.log(`
 ║  Endpoints:                                                    ║
 ║    GET  /v1/models              - List available models        ║
 ║    POST /v1/chat/completions    - Chat completions (OpenAI)    ║
+║    POST /v1/responses           - Responses (OpenAI)           ║
+║    POST /v1/messages            - Messages (Anthropic)         ║
+║    POST /v1beta/models/:model   - Gemini API passthrough       ║
+║    POST /v1/tokenize            - Count prompt tokens          ║
+║    POST /v1/files               - Files (OpenAI)               ║
+║    POST /v1/batches             - Batches (OpenAI)             ║
+║    GET  /v1/usage               - Usage report                 ║
 ║    GET  /status                 - Server status                ║
 ║    GET  /health                 - Health check                 ║
 ║                                                                ║
 ${client.hasValidTokens()
-    ? `║  ✓ Authenticated as: ${(client.getTokens()?.email || "Unknown").padEnd(35)}║`
+    ? client.getAccounts().length > 1
+      ? `║  ✓ Account pool: ${`${client.getAccounts().length} accounts`.padEnd(46)}║`
+      : `║  ✓ Authenticated as: ${(client.getAccounts()[0]?.email || "Unknown").padEnd(42)}║`
     : "║  ✗ Not authenticated. Run: bun run auth                      ║"
   }
 ╚════════════════════════════════════════════════════════════════╝
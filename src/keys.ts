@@ -0,0 +1,105 @@
+/**
+ * API key administration CLI
+ * Run with: bun run keys <create | list | revoke> [...]
+ */
+
+import { fallbackChain } from "./models";
+import { createKey, loadKeys, revokeKey } from "./keystore";
+
+function usage(): never {
+  console.log(`
+Usage:
+  bun run keys create <name> [options]   Create a new key
+  bun run keys list                     List keys
+  bun run keys revoke <id>              Revoke a key
+
+Options:
+  --models model1,model2   Restrict the key to these models
+  --rpm <n>                Requests per minute limit
+  --tpd <n>                Tokens per day limit
+  --admin                  Allow reading every key's usage
+`);
+  process.exit(1);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === "create") {
+    const name = args[0];
+    if (!name || name.startsWith("--")) usage();
+
+    const option = (flag: string): string | undefined => {
+      const index = args.indexOf(flag);
+      return index !== -1 ? args[index + 1] : undefined;
+    };
+
+    const models = option("--models")?.split(",").map((m) => m.trim()).filter(Boolean);
+    const rpm = option("--rpm") ? Number(option("--rpm")) : undefined;
+    const tpd = option("--tpd") ? Number(option("--tpd")) : undefined;
+
+    if ((rpm !== undefined && !(rpm > 0)) || (tpd !== undefined && !(tpd > 0))) {
+      console.error("❌ --rpm and --tpd must be positive numbers");
+      process.exit(1);
+    }
+
+    const unknown = (models || []).filter((m) => fallbackChain(m).length === 0);
+    if (unknown.length > 0) {
+      console.error(`❌ Unknown model(s): ${unknown.join(", ")}`);
+      process.exit(1);
+    }
+
+    const admin = args.includes("--admin");
+
+    const { key, apiKey } = await createKey(name, { models, rpm, tpd, admin });
+
+    console.log(`
+✅ Created key ${apiKey.id} (${apiKey.name})
+   Models: ${apiKey.models?.join(", ") || "all"}
+   Limits: ${apiKey.rpm ?? "unlimited"} req/min, ${apiKey.tpd ?? "unlimited"} tokens/day${apiKey.admin ? "\n   Admin: yes" : ""}
+
+   ${key}
+
+   Store this key now - it cannot be shown again.
+`);
+    return;
+  }
+
+  if (command === "list") {
+    const keys = await loadKeys();
+
+    if (keys.length === 0) {
+      console.log("No keys configured. The proxy accepts unauthenticated requests.");
+      return;
+    }
+
+    for (const key of keys) {
+      console.log(
+        `${key.id.padEnd(14)} ${key.name.padEnd(20)} models: ${key.models?.join(", ") || "all"}` +
+        (key.rpm ? `  rpm: ${key.rpm}` : "") +
+        (key.tpd ? `  tpd: ${key.tpd}` : "") +
+        (key.admin ? "  admin" : "")
+      );
+    }
+    return;
+  }
+
+  if (command === "revoke") {
+    const id = args[0];
+    if (!id) usage();
+
+    if (await revokeKey(id)) {
+      console.log(`✅ Revoked ${id}`);
+      return;
+    }
+    console.error(`❌ No key found with id ${id}`);
+    process.exit(1);
+  }
+
+  usage();
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,210 @@
+/**
+ * Client API key store for access control on the proxy
+ */
+
+import { join } from "path";
+import { readFile, writeFile, stat } from "fs/promises";
+import { CONFIG_DIR, ensureConfigDir } from "./storage";
+
+const KEYS_FILE = join(CONFIG_DIR, "keys.json");
+
+/**
+ * A client API key. Keys created by the admin command are stored as a
+ * SHA-256 hash; keys written into the config file by hand may use `key`.
+ * `rpm` and `tpd` cap requests per minute and tokens per day. Admin keys
+ * can read every key's usage.
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  hash?: string;
+  key?: string;
+  models?: string[];
+  rpm?: number;
+  tpd?: number;
+  admin?: boolean;
+  createdAt: number;
+}
+
+interface StoredKeys {
+  version: 1;
+  keys: ApiKey[];
+}
+
+let cachedKeys: ApiKey[] = [];
+let cachedMtime = -1;
+
+// Set while the key file exists but can't be read, so auth stays enforced
+let keyFileInvalid = false;
+
+/**
+ * Hash an API key for storage and comparison
+ */
+function hashKey(key: string): string {
+  return new Bun.CryptoHasher("sha256").update(key).digest("hex");
+}
+
+/**
+ * Keys supplied through the API_KEYS environment variable (comma separated).
+ * These are the operator's own keys, so they have admin access.
+ */
+function envKeys(): ApiKey[] {
+  return (process.env.API_KEYS || "")
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean)
+    .map((key, i) => ({ id: `env-${i}`, name: "env", key, admin: true, createdAt: 0 }));
+}
+
+/**
+ * Load keys from disk. A missing file means no keys; a file that can't be
+ * read or parsed throws rather than being treated as empty.
+ */
+export async function loadKeys(): Promise<ApiKey[]> {
+  let content: string;
+  try {
+    content = await readFile(KEYS_FILE, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw new Error(`Can't read ${KEYS_FILE}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let data: StoredKeys;
+  try {
+    data = JSON.parse(content) as StoredKeys;
+  } catch (error) {
+    throw new Error(`Invalid key file ${KEYS_FILE}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (data?.version !== 1 || !Array.isArray(data.keys)) {
+    throw new Error(`Invalid key file ${KEYS_FILE}: expected version 1 with a keys array`);
+  }
+
+  return data.keys;
+}
+
+/**
+ * Save keys to disk
+ */
+export async function saveKeys(keys: ApiKey[]): Promise<void> {
+  await ensureConfigDir();
+
+  const data: StoredKeys = {
+    version: 1,
+    keys,
+  };
+
+  await writeFile(KEYS_FILE, JSON.stringify(data, null, 2), { encoding: "utf-8", mode: 0o600 });
+}
+
+/**
+ * Get all active keys, reloading the key file when it changes on disk. If
+ * the file becomes invalid the last valid keys stay in use.
+ */
+async function getKeys(): Promise<ApiKey[]> {
+  let mtime = 0;
+  try {
+    mtime = (await stat(KEYS_FILE)).mtimeMs;
+  } catch {
+    // No key file
+  }
+
+  if (mtime !== cachedMtime) {
+    cachedMtime = mtime;
+    try {
+      cachedKeys = mtime ? await loadKeys() : [];
+      keyFileInvalid = false;
+    } catch (error) {
+      keyFileInvalid = true;
+      console.error(
+        `[Keys] ${error instanceof Error ? error.message : error}; keeping the last valid keys (${cachedKeys.length})`
+      );
+    }
+  }
+
+  return [...envKeys(), ...cachedKeys];
+}
+
+/**
+ * Create a new key. The plaintext key is only returned here.
+ */
+export async function createKey(
+  name: string,
+  options: Pick<ApiKey, "models" | "rpm" | "tpd" | "admin"> = {}
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const random = new Uint8Array(24);
+  crypto.getRandomValues(random);
+  const key = `sk-ag-${Buffer.from(random).toString("hex")}`;
+
+  const apiKey: ApiKey = {
+    id: `key_${crypto.randomUUID().slice(0, 8)}`,
+    name,
+    hash: hashKey(key),
+    ...(options.models && options.models.length > 0 ? { models: options.models } : {}),
+    ...(options.rpm ? { rpm: options.rpm } : {}),
+    ...(options.tpd ? { tpd: options.tpd } : {}),
+    ...(options.admin ? { admin: true } : {}),
+    createdAt: Date.now(),
+  };
+
+  const keys = await loadKeys();
+  keys.push(apiKey);
+  await saveKeys(keys);
+
+  return { key, apiKey };
+}
+
+/**
+ * Revoke a key by id
+ */
+export async function revokeKey(id: string): Promise<boolean> {
+  const keys = await loadKeys();
+  const remaining = keys.filter((k) => k.id !== id);
+  if (remaining.length === keys.length) return false;
+
+  await saveKeys(remaining);
+  return true;
+}
+
+/**
+ * Whether key authentication is enforced: any keys configured, or a key file
+ * that can't be read (which fails closed rather than opening the proxy)
+ */
+export async function isKeyAuthEnabled(): Promise<boolean> {
+  return (await getKeys()).length > 0 || keyFileInvalid;
+}
+
+/**
+ * Look up the key matching a presented token
+ */
+export async function authenticateKey(token: string | undefined): Promise<ApiKey | null> {
+  if (!token) return null;
+
+  const hash = hashKey(token);
+  return (await getKeys()).find((k) => k.hash === hash || k.key === token) || null;
+}
+
+/**
+ * Look up an active key by id
+ */
+export async function findKey(id: string): Promise<ApiKey | null> {
+  return (await getKeys()).find((k) => k.id === id) || null;
+}
+
+/**
+ * Check whether a key may use a model
+ */
+export function isModelAllowed(apiKey: ApiKey | null, model: string): boolean {
+  return !apiKey?.models || apiKey.models.includes(model);
+}
+
+/**
+ * Extract the presented key from request headers (OpenAI, Anthropic and Gemini styles)
+ */
+export function extractKey(headers: Record<string, string | undefined>): string | undefined {
+  const authorization = headers["authorization"];
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice(7).trim();
+  }
+  return headers["x-api-key"] || headers["x-goog-api-key"];
+}
@@ -0,0 +1,444 @@
+/**
+ * Resolve multimodal message inputs (remote images, files, audio) into inline data
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { checkServerIdentity } from "tls";
+import type { AnthropicMessage } from "./anthropic";
+import type { OpenAIContentPart, OpenAIMessage } from "./converter";
+import { readFileContent } from "./files";
+import type { ApiKey } from "./keystore";
+
+// Largest single input accepted, in bytes (Gemini caps inline requests at 20 MB)
+const MAX_INPUT_BYTES = Number(process.env.MEDIA_MAX_BYTES) || 20 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 15 * 1000;
+const MAX_REDIRECTS = 5;
+
+// Remote images may only come from public addresses: loopback, private,
+// link-local (including cloud metadata services) and reserved ranges are refused
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Remote images are cached by URL, up to this many bytes in total
+const CACHE_MAX_BYTES = 64 * 1024 * 1024;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif", "image/heic", "image/heif"];
+
+const FILE_MIME_TYPES = [
+  "application/pdf",
+  "application/json",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "text/html",
+  "text/xml",
+];
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mp3",
+  aac: "audio/aac",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  aiff: "audio/aiff",
+};
+
+// MIME types for file names, used when a file part has no data URI prefix
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  json: "application/json",
+  jsonl: "application/jsonl",
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  html: "text/html",
+  xml: "text/xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+/**
+ * A message input the proxy can't pass on to the model
+ */
+export class MediaError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly param?: string
+  ) {
+    super(message);
+    this.name = "MediaError";
+  }
+}
+
+const cache = new Map<string, { mimeType: string; data: string; expiresAt: number }>();
+let cacheBytes = 0;
+
+/**
+ * Cache a fetched image, evicting the oldest entries beyond the size limit
+ */
+function cacheImage(url: string, mimeType: string, data: string): void {
+  // Concurrent fetches of the same URL replace each other's entry
+  const previous = cache.get(url);
+  if (previous) {
+    cache.delete(url);
+    cacheBytes -= previous.data.length;
+  }
+
+  cache.set(url, { mimeType, data, expiresAt: Date.now() + CACHE_TTL_MS });
+  cacheBytes += data.length;
+
+  for (const [key, entry] of cache) {
+    if (cacheBytes <= CACHE_MAX_BYTES) break;
+    cache.delete(key);
+    cacheBytes -= entry.data.length;
+  }
+}
+
+/**
+ * Get a cached image by URL
+ */
+function getCachedImage(url: string): { mimeType: string; data: string } | undefined {
+  const entry = cache.get(url);
+  if (!entry) return undefined;
+
+  if (entry.expiresAt < Date.now()) {
+    cache.delete(url);
+    cacheBytes -= entry.data.length;
+    return undefined;
+  }
+
+  return entry;
+}
+
+/**
+ * MIME type for a file name, from its extension
+ */
+export function mimeTypeForFilename(filename: string): string | undefined {
+  return EXTENSION_MIME_TYPES[filename.split(".").pop()?.toLowerCase() || ""];
+}
+
+/**
+ * Split a base64 data URI into its MIME type and payload
+ */
+export function parseDataUri(uri: string): { mimeType: string; data: string } | null {
+  const match = uri.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.+)$/s);
+  return match ? { mimeType: match[1].toLowerCase(), data: match[2] } : null;
+}
+
+/**
+ * Decoded size of a base64 payload in bytes
+ */
+function base64Size(data: string): number {
+  return Math.floor((data.length * 3) / 4) - (data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0);
+}
+
+/**
+ * Reject payloads over the input size limit
+ */
+function checkSize(bytes: number, param: string): void {
+  if (bytes > MAX_INPUT_BYTES) {
+    throw new MediaError(
+      `Input is ${bytes} bytes, larger than the ${MAX_INPUT_BYTES} byte limit.`,
+      "input_too_large",
+      param
+    );
+  }
+}
+
+/**
+ * Reject image URLs that aren't http(s) or whose host resolves to a
+ * non-public address, returning an address to connect to
+ */
+async function checkImageUrl(url: URL, param: string): Promise<{ address: string; family: number }> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new MediaError("image_url must be an http(s) URL or a base64 data URI.", "invalid_image_url", param);
+  }
+
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ""), { all: true });
+  } catch {
+    throw new MediaError(`Failed to download image from ${url}: unknown host`, "invalid_image_url", param);
+  }
+
+  if (addresses.some((a) => BLOCKED_ADDRESSES.check(a.address, a.family === 6 ? "ipv6" : "ipv4"))) {
+    throw new MediaError(`Image URL ${url} does not point to a public address.`, "invalid_image_url", param);
+  }
+
+  return addresses[0];
+}
+
+/**
+ * Fetch a URL from an address already checked for it, so that a second DNS
+ * lookup can't send the request somewhere else. The original host still
+ * goes in the Host header and is what the TLS certificate is checked against.
+ */
+function fetchPinned(
+  url: URL,
+  { address, family }: { address: string; family: number },
+  signal: AbortSignal
+): Promise<Response> {
+  const pinned = new URL(url);
+  pinned.hostname = family === 6 ? `[${address}]` : address;
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+
+  return fetch(pinned, {
+    signal,
+    redirect: "manual",
+    headers: { Host: url.host },
+    ...(url.protocol === "https:"
+      ? {
+        tls: {
+          ...(isIP(hostname) ? {} : { serverName: hostname }),
+          checkServerIdentity: (_: string, cert: Parameters<typeof checkServerIdentity>[1]) =>
+            checkServerIdentity(hostname, cert),
+        },
+      }
+      : {}),
+  });
+}
+
+/**
+ * Download a remote image with a size limit, returning it as a data URI.
+ * Redirects are followed by hand so that every hop's host is checked and
+ * pinned.
+ */
+async function fetchImage(url: string, param: string): Promise<string> {
+  const cached = getCachedImage(url);
+  if (cached) {
+    return `data:${cached.mimeType};base64,${cached.data}`;
+  }
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let target = new URL(url);
+  let response: Response;
+
+  for (let redirects = 0; ; redirects++) {
+    const address = await checkImageUrl(target, param);
+
+    try {
+      response = await fetchPinned(target, address, signal);
+    } catch (error) {
+      throw new MediaError(
+        `Failed to download image from ${url}: ${error instanceof Error ? error.message : error}`,
+        "invalid_image_url",
+        param
+      );
+    }
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) break;
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new MediaError(`Failed to download image from ${url}: too many redirects`, "invalid_image_url", param);
+    }
+    target = new URL(location, target);
+  }
+
+  if (!response.ok) {
+    throw new MediaError(`Failed to download image from ${url}: HTTP ${response.status}`, "invalid_image_url", param);
+  }
+
+  const mimeType = (response.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+  if (!IMAGE_MIME_TYPES.includes(mimeType)) {
+    await response.body?.cancel();
+    throw new MediaError(
+      `Unsupported image type '${mimeType || "unknown"}' at ${url}. Supported: ${IMAGE_MIME_TYPES.join(", ")}.`,
+      "invalid_image_format",
+      param
+    );
+  }
+
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength) {
+    checkSize(contentLength, param);
+  }
+
+  // Read incrementally so an unannounced oversized body is cut off early
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  for (let read = await reader?.read(); read && !read.done; read = await reader!.read()) {
+    size += read.value.length;
+    if (size > MAX_INPUT_BYTES) {
+      await reader!.cancel();
+      checkSize(size, param);
+    }
+    chunks.push(read.value);
+  }
+
+  const data = Buffer.concat(chunks).toString("base64");
+  cacheImage(url, mimeType, data);
+
+  return `data:${mimeType};base64,${data}`;
+}
+
+/**
+ * Validate and normalize a single content part, fetching remote images
+ */
+async function resolvePart(
+  part: OpenAIContentPart,
+  param: string,
+  apiKey: ApiKey | null
+): Promise<OpenAIContentPart> {
+  switch (part.type) {
+    case "text":
+      return part;
+
+    case "image_url": {
+      const url = part.image_url?.url || "";
+
+      if (/^https?:\/\//i.test(url)) {
+        return { ...part, image_url: { ...part.image_url, url: await fetchImage(url, param) } };
+      }
+
+      const parsed = parseDataUri(url);
+      if (!parsed) {
+        throw new MediaError("image_url must be an http(s) URL or a base64 data URI.", "invalid_image_url", param);
+      }
+      if (!IMAGE_MIME_TYPES.includes(parsed.mimeType)) {
+        throw new MediaError(
+          `Unsupported image type '${parsed.mimeType}'. Supported: ${IMAGE_MIME_TYPES.join(", ")}.`,
+          "invalid_image_format",
+          param
+        );
+      }
+      checkSize(base64Size(parsed.data), param);
+      return part;
+    }
+
+    case "file": {
+      // Files uploaded through /v1/files are referenced by id
+      if (part.file?.file_id && !part.file.file_data) {
+        const stored = await readFileContent(part.file.file_id, apiKey);
+        if (!stored) {
+          throw new MediaError(`No such file: '${part.file.file_id}'.`, "file_not_found", param);
+        }
+        part = {
+          ...part,
+          file: {
+            filename: stored.file.filename,
+            file_data: `data:${stored.mimeType};base64,${stored.data.toString("base64")}`,
+          },
+        };
+      }
+
+      if (!part.file?.file_data) {
+        throw new MediaError("File parts must include file_data or file_id.", "invalid_file", param);
+      }
+
+      // file_data is usually a data URI; bare base64 takes its type from the file name
+      const parsed = parseDataUri(part.file.file_data) || {
+        mimeType: mimeTypeForFilename(part.file.filename || "") || "",
+        data: part.file.file_data,
+      };
+
+      if (!FILE_MIME_TYPES.includes(parsed.mimeType) && !IMAGE_MIME_TYPES.includes(parsed.mimeType)) {
+        throw new MediaError(
+          `Unsupported file type '${parsed.mimeType || "unknown"}'. Supported: ${[...FILE_MIME_TYPES, ...IMAGE_MIME_TYPES].join(", ")}.`,
+          "invalid_file_format",
+          param
+        );
+      }
+      checkSize(base64Size(parsed.data), param);
+
+      return { ...part, file: { ...part.file, file_data: `data:${parsed.mimeType};base64,${parsed.data}` } };
+    }
+
+    case "input_audio": {
+      const format = part.input_audio?.format?.toLowerCase() || "";
+      if (!AUDIO_MIME_TYPES[format]) {
+        throw new MediaError(
+          `Unsupported audio format '${format}'. Supported: ${Object.keys(AUDIO_MIME_TYPES).join(", ")}.`,
+          "invalid_audio_format",
+          param
+        );
+      }
+      checkSize(base64Size(part.input_audio!.data), param);
+      return part;
+    }
+
+    default:
+      // Other part types (such as refusal) carry no media and pass through unchanged
+      return part;
+  }
+}
+
+/**
+ * Validate every multimodal input in a conversation, replacing remote image
+ * URLs and file ids with inline data. Throws MediaError for inputs that can't be sent.
+ */
+export async function resolveMediaInputs(
+  messages: OpenAIMessage[],
+  apiKey: ApiKey | null
+): Promise<void> {
+  for (const [i, message] of messages.entries()) {
+    if (!Array.isArray(message.content)) continue;
+
+    message.content = await Promise.all(
+      message.content.map((part, j) => resolvePart(part, `messages[${i}].content[${j}]`, apiKey))
+    );
+  }
+}
+
+/**
+ * Replace image URLs in an Anthropic Messages conversation with inline data.
+ * Documents can only be sent inline.
+ */
+export async function resolveAnthropicMedia(messages: AnthropicMessage[]): Promise<void> {
+  for (const [i, message] of messages.entries()) {
+    if (!Array.isArray(message.content)) continue;
+
+    message.content = await Promise.all(
+      message.content.map(async (block, j) => {
+        if ((block.type !== "image" && block.type !== "document") || block.source.type !== "url") {
+          return block;
+        }
+
+        const param = `messages[${i}].content[${j}]`;
+        if (block.type === "document") {
+          throw new MediaError("Document URLs are not supported; send the document as base64.", "invalid_file", param);
+        }
+
+        const { mimeType, data } = parseDataUri(await fetchImage(block.source.url, param))!;
+        return { ...block, source: { type: "base64" as const, media_type: mimeType, data } };
+      })
+    );
+  }
+}
+
+/**
+ * MIME type for an OpenAI input_audio format
+ */
+export function audioMimeType(format: string): string | undefined {
+  return AUDIO_MIME_TYPES[format.toLowerCase()];
+}
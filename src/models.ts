@@ -0,0 +1,453 @@
+/**
+ * Model registry. The built-in models below can be overridden, extended or
+ * removed by a JSON or YAML config file, which also defines fallback chains
+ * and is reloaded on SIGHUP and whenever it changes on disk.
+ */
+
+import { existsSync, readFileSync, watch } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { CONFIG_DIR } from "./storage";
+
+/**
+ * Which backend serves a model; decides request and schema conversion
+ */
+export type ModelFamily = "claude" | "gemini" | "oss";
+
+const FAMILIES: readonly ModelFamily[] = ["claude", "gemini", "oss"];
+
+/**
+ * A model the proxy serves. Entries with a `baseModel` are aliases for that
+ * model with a fixed thinking level or budget.
+ */
+export interface ModelInfo {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+  display_name: string;
+  description: string;
+  type: "model";
+  family: ModelFamily;
+  context_length: number;
+  max_output_tokens?: number;
+  // Model name sent upstream, when it differs from the id
+  upstream?: string;
+  baseModel?: string;
+  thinkingLevel?: string;
+  thinkingBudget?: number;
+  // Extra headers sent upstream with requests for this model
+  headers?: Record<string, string>;
+}
+
+// Release dates (Unix seconds) reported as `created` for the built-in models
+const GEMINI_3_PRO_RELEASE = 1763424000;
+const GEMINI_3_FLASH_RELEASE = 1765929600;
+const CLAUDE_SONNET_4_5_RELEASE = 1759104000;
+const CLAUDE_OPUS_4_5_RELEASE = 1763942400;
+const GPT_OSS_RELEASE = 1754352000;
+
+// `created` for models added by the config file
+const STARTED_AT = Math.floor(Date.now() / 1000);
+
+// Built-in models, used as defaults for the config file
+const DEFAULT_MODELS: Record<string, ModelInfo> = {
+
+  "gemini-3-pro": {
+    id: "gemini-3-pro",
+    object: "model",
+    created: GEMINI_3_PRO_RELEASE,
+    owned_by: "google",
+    display_name: "Gemini 3 Pro",
+    description: "Gemini 3 Pro, thinking level set per request with reasoning_effort",
+    type: "model",
+    family: "gemini",
+    context_length: 1000000,
+    thinkingLevel: "high",
+  },
+  "gemini-3-pro-low": {
+    id: "gemini-3-pro-low",
+    object: "model",
+    created: GEMINI_3_PRO_RELEASE,
+    owned_by: "google",
+    display_name: "Gemini 3 Pro (Low Thinking)",
+    description: "Gemini 3 Pro with low thinking budget",
+    type: "model",
+    family: "gemini",
+    context_length: 1000000,
+    baseModel: "gemini-3-pro",
+    thinkingLevel: "low",
+  },
+  "gemini-3-pro-high": {
+    id: "gemini-3-pro-high",
+    object: "model",
+    created: GEMINI_3_PRO_RELEASE,
+    owned_by: "google",
+    display_name: "Gemini 3 Pro (High Thinking)",
+    description: "Gemini 3 Pro with high thinking budget",
+    type: "model",
+    family: "gemini",
+    context_length: 1000000,
+    baseModel: "gemini-3-pro",
+    thinkingLevel: "high",
+  },
+  "gemini-3-flash": {
+    id: "gemini-3-flash",
+    object: "model",
+    created: GEMINI_3_FLASH_RELEASE,
+    owned_by: "google",
+    display_name: "Gemini 3 Flash",
+    description: "Fast Gemini 3 model",
+    type: "model",
+    family: "gemini",
+    context_length: 1000000,
+  },
+  "claude-sonnet-4-5": {
+    id: "claude-sonnet-4-5",
+    object: "model",
+    created: CLAUDE_SONNET_4_5_RELEASE,
+    owned_by: "anthropic",
+    display_name: "Claude Sonnet 4.5",
+    description: "Claude Sonnet 4.5 without extended thinking",
+    type: "model",
+    family: "claude",
+    context_length: 200000,
+  },
+  "claude-sonnet-4-5-thinking-low": {
+    id: "claude-sonnet-4-5-thinking-low",
+    object: "model",
+    created: CLAUDE_SONNET_4_5_RELEASE,
+    owned_by: "anthropic",
+    display_name: "Claude Sonnet 4.5 (8K Thinking)",
+    description: "Claude Sonnet 4.5 with 8K thinking budget",
+    type: "model",
+    family: "claude",
+    context_length: 200000,
+    baseModel: "claude-sonnet-4-5",
+    thinkingBudget: 8192,
+  },
+  "claude-sonnet-4-5-thinking-medium": {
+    id: "claude-sonnet-4-5-thinking-medium",
+    object: "model",
+    created: CLAUDE_SONNET_4_5_RELEASE,
+    owned_by: "anthropic",
+    display_name: "Claude Sonnet 4.5 (16K Thinking)",
+    description: "Claude Sonnet 4.5 with 16K thinking budget",
+    type: "model",
+    family: "claude",
+    context_length: 200000,
+    baseModel: "claude-sonnet-4-5",
+    thinkingBudget: 16384,
+  },
+  "claude-sonnet-4-5-thinking-high": {
+    id: "claude-sonnet-4-5-thinking-high",
+    object: "model",
+    created: CLAUDE_SONNET_4_5_RELEASE,
+    owned_by: "anthropic",
+    display_name: "Claude Sonnet 4.5 (32K Thinking)",
+    description: "Claude Sonnet 4.5 with 32K thinking budget",
+    type: "model",
+    family: "claude",
+    context_length: 200000,
+    baseModel: "claude-sonnet-4-5",
+    thinkingBudget: 32768,
+  },
+  "claude-opus-4-5": {
+    id: "claude-opus-4-5",
+    object: "model",
+    created: CLAUDE_OPUS_4_5_RELEASE,
+    owned_by: "anthropic",
+    display_name: "Claude Opus 4.5",
+    description: "Claude Opus 4.5, thinking budget set per request",
+    type: "model",
+    family: "claude",
+    context_length: 200000,
+  },
+  "claude-opus-4-5-thinking-low": {
+    id: "claude-opus-4-5-thinking-low",
+    object: "model",
+    created: CLAUDE_OPUS_4_5_RELEASE,
+    owned_by: "anthropic",
+    display_name: "Claude Opus 4.5 (8K Thinking)",
+    description: "Claude Opus 4.5 with 8K thinking budget",
+    type: "model",
+    family: "claude",
+    context_length: 200000,
+    baseModel: "claude-opus-4-5",
+    thinkingBudget: 8192,
+  },
+  "claude-opus-4-5-thinking-medium": {
+    id: "claude-opus-4-5-thinking-medium",
+    object: "model",
+    created: CLAUDE_OPUS_4_5_RELEASE,
+    owned_by: "anthropic",
+    display_name: "Claude Opus 4.5 (16K Thinking)",
+    description: "Claude Opus 4.5 with 16K thinking budget",
+    type: "model",
+    family: "claude",
+    context_length: 200000,
+    baseModel: "claude-opus-4-5",
+    thinkingBudget: 16384,
+  },
+  "claude-opus-4-5-thinking-high": {
+    id: "claude-opus-4-5-thinking-high",
+    object: "model",
+    created: CLAUDE_OPUS_4_5_RELEASE,
+    owned_by: "anthropic",
+    display_name: "Claude Opus 4.5 (32K Thinking)",
+    description: "Claude Opus 4.5 with 32K thinking budget",
+    type: "model",
+    family: "claude",
+    context_length: 200000,
+    baseModel: "claude-opus-4-5",
+    thinkingBudget: 32768,
+  },
+  "gpt-oss-120b-medium": {
+    id: "gpt-oss-120b-medium",
+    object: "model",
+    created: GPT_OSS_RELEASE,
+    owned_by: "google",
+    display_name: "GPT-OSS 120B Medium",
+    description: "Open source 120B parameter model",
+    type: "model",
+    family: "oss",
+    context_length: 128000,
+  },
+};
+
+const CONFIG_FILES = ["models.json", "models.yaml", "models.yml"];
+
+// Settable fields of a config entry, by expected type
+const STRING_FIELDS = ["owned_by", "display_name", "description", "upstream", "baseModel", "thinkingLevel"];
+const NUMBER_FIELDS = ["created", "context_length", "max_output_tokens", "thinkingBudget"];
+
+// Debounce for file change events, which editors fire several of per save
+const RELOAD_DELAY_MS = 100;
+
+/**
+ * Models currently served. Updated in place on reload, so references stay valid.
+ */
+export const AVAILABLE_MODELS: Record<string, ModelInfo> = {};
+
+/**
+ * Fallback chains from the config file, by model or virtual model id
+ */
+export const FALLBACK_CHAINS: Record<string, string[]> = {};
+
+/**
+ * The config file to load: MODELS_FILE, or the first models.json/.yaml/.yml
+ * in the config directory
+ */
+function configFile(): string | null {
+  if (process.env.MODELS_FILE) return process.env.MODELS_FILE;
+  return CONFIG_FILES.map((name) => join(CONFIG_DIR, name)).find((file) => existsSync(file)) || null;
+}
+
+/**
+ * Guess a model's family from its name
+ */
+function guessFamily(name: string): ModelFamily {
+  const lower = name.toLowerCase();
+  if (lower.includes("claude")) return "claude";
+  if (lower.includes("gpt-oss")) return "oss";
+  return "gemini";
+}
+
+/**
+ * Check a config entry's fields, returning the first problem found
+ */
+function validateEntry(entry: Record<string, unknown>): string | null {
+  for (const [field, value] of Object.entries(entry)) {
+    if (STRING_FIELDS.includes(field)) {
+      if (typeof value !== "string") return `${field} must be a string`;
+    } else if (NUMBER_FIELDS.includes(field)) {
+      if (typeof value !== "number" || !(value > 0)) return `${field} must be a positive number`;
+    } else if (field === "family") {
+      if (!FAMILIES.includes(value as ModelFamily)) return `family must be one of ${FAMILIES.join(", ")}`;
+    } else if (field === "headers") {
+      if (
+        !value ||
+        typeof value !== "object" ||
+        Object.values(value).some((v) => typeof v !== "string")
+      ) {
+        return "headers must map header names to strings";
+      }
+    } else {
+      return `unknown field '${field}'`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the model table from the built-in models and a parsed config. Each
+ * config entry is merged over the built-in model of the same id; a new model
+ * with a `baseModel` (built in or earlier in the file) starts from that
+ * model's settings. `null` removes a model.
+ */
+function buildModels(config: unknown): Record<string, ModelInfo> {
+  const models: Record<string, ModelInfo> = { ...DEFAULT_MODELS };
+  if (config === null || config === undefined) return models;
+
+  if (typeof config !== "object" || Array.isArray(config)) {
+    throw new Error("expected a map with 'models' and 'fallbacks'");
+  }
+
+  const entries = (config as { models?: unknown }).models ?? {};
+  if (!entries || typeof entries !== "object" || Array.isArray(entries)) {
+    throw new Error("expected a 'models' map of model ids to settings");
+  }
+
+  for (const [id, entry] of Object.entries(entries)) {
+    if (entry === null) {
+      delete models[id];
+      continue;
+    }
+    if (typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`models.${id}: expected a map of settings or null`);
+    }
+
+    const problem = validateEntry(entry);
+    if (problem) throw new Error(`models.${id}: ${problem}`);
+
+    const settings = entry as Partial<ModelInfo>;
+    let template: Partial<ModelInfo> | undefined = DEFAULT_MODELS[id];
+    if (!template && settings.baseModel) {
+      if (!models[settings.baseModel]) {
+        throw new Error(`models.${id}: unknown baseModel '${settings.baseModel}'`);
+      }
+      // Aliases inherit their base model's settings, not its name or thinking
+      const { display_name: _, description: __, thinkingLevel: ___, thinkingBudget: ____, ...base } =
+        models[settings.baseModel];
+      template = base;
+    }
+
+    if (!template && !settings.context_length) {
+      throw new Error(`models.${id}: context_length is required for a new model`);
+    }
+
+    const family = settings.family ?? template?.family ?? guessFamily(settings.upstream ?? id);
+    models[id] = {
+      object: "model",
+      created: STARTED_AT,
+      owned_by: family === "claude" ? "anthropic" : "google",
+      display_name: id,
+      description: "",
+      type: "model",
+      context_length: 0,
+      ...template,
+      ...settings,
+      family,
+      id,
+    };
+  }
+
+  return models;
+}
+
+/**
+ * Read the fallback chains from a parsed config: each maps a model id, or a
+ * virtual id that isn't a model, to the models to try in order
+ */
+function buildFallbacks(config: unknown, models: Record<string, ModelInfo>): Record<string, string[]> {
+  const chains = (config as { fallbacks?: unknown } | null)?.fallbacks ?? {};
+  if (!chains || typeof chains !== "object" || Array.isArray(chains)) {
+    throw new Error("expected a 'fallbacks' map of model ids to lists of models");
+  }
+
+  for (const [id, chain] of Object.entries(chains)) {
+    if (!Array.isArray(chain) || chain.length === 0) {
+      throw new Error(`fallbacks.${id}: expected a list of models`);
+    }
+    const unknown = chain.find((model) => typeof model !== "string" || !models[model]);
+    if (unknown !== undefined) {
+      throw new Error(`fallbacks.${id}: unknown model '${unknown}'`);
+    }
+  }
+
+  return chains as Record<string, string[]>;
+}
+
+/**
+ * Load the model table from the config file. On error the current table is
+ * kept (the built-in models on first load).
+ */
+export function reloadModels(): boolean {
+  const file = configFile();
+  let models: Record<string, ModelInfo>;
+  let fallbacks: Record<string, string[]>;
+
+  try {
+    let config: unknown = null;
+    if (file && existsSync(file)) {
+      const content = readFileSync(file, "utf-8");
+      config = extname(file) === ".json" ? JSON.parse(content) : Bun.YAML.parse(content);
+    }
+    models = buildModels(config);
+    fallbacks = buildFallbacks(config, models);
+  } catch (err) {
+    console.error(`[Models] Failed to load ${file}:`, err instanceof Error ? err.message : err);
+    if (Object.keys(AVAILABLE_MODELS).length === 0) {
+      Object.assign(AVAILABLE_MODELS, DEFAULT_MODELS);
+    }
+    return false;
+  }
+
+  for (const id of Object.keys(AVAILABLE_MODELS)) {
+    delete AVAILABLE_MODELS[id];
+  }
+  Object.assign(AVAILABLE_MODELS, models);
+
+  for (const id of Object.keys(FALLBACK_CHAINS)) {
+    delete FALLBACK_CHAINS[id];
+  }
+  Object.assign(FALLBACK_CHAINS, fallbacks);
+  return true;
+}
+
+/**
+ * Models to try for a requested id, in order: a model followed by its
+ * fallbacks, or a virtual id's chain. Empty if the id is unknown.
+ */
+export function fallbackChain(id: string): string[] {
+  const fallbacks = FALLBACK_CHAINS[id] || [];
+  return [...new Set(AVAILABLE_MODELS[id] ? [id, ...fallbacks] : fallbacks)];
+}
+
+/**
+ * Whether a model is served by the Claude backend
+ */
+export function isClaudeModel(model: string): boolean {
+  return (AVAILABLE_MODELS[model]?.family ?? guessFamily(model)) === "claude";
+}
+
+/**
+ * Reload the model table on SIGHUP and when the config file changes
+ */
+export function watchModels(): void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const reload = (reason: string) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      if (reloadModels()) {
+        console.log(`[Models] Reloaded ${Object.keys(AVAILABLE_MODELS).length} models (${reason})`);
+      }
+    }, RELOAD_DELAY_MS);
+  };
+
+  process.on("SIGHUP", () => reload("SIGHUP"));
+
+  // Watch the directory, so the file is picked up when created or replaced
+  const file = process.env.MODELS_FILE;
+  const names = file ? [basename(file)] : CONFIG_FILES;
+  try {
+    watch(file ? dirname(file) : CONFIG_DIR, (_event, filename) => {
+      if (filename && names.includes(filename)) reload("file changed");
+    }).unref();
+  } catch {
+    console.error("[Models] Can't watch the model config for changes; send SIGHUP to reload");
+  }
+}
+
+reloadModels();
@@ -0,0 +1,159 @@
+/**
+ * Prompt prefix account affinity.
+ *
+ * Agents resend the same system prompt, tools and conversation history on
+ * every turn. Prefixes seen recently are tracked here by hash, so that
+ * requests sharing a prefix go through the account that last served it, where
+ * any prefix caching the backend does on its own is most likely to hit.
+ * Nothing is cached by the proxy itself and no Gemini `cachedContent` is
+ * created. Claude requests can also carry `cache_control` breakpoints at their stable
+ * boundaries, but only when PROMPT_CACHE_HINTS=on: the field isn't part of
+ * the Gemini request format the backend takes, so it may be rejected.
+ */
+
+interface CacheableRequest {
+  contents: Array<{ parts: Array<Record<string, unknown>> }>;
+  systemInstruction?: { parts: Array<Record<string, unknown>> };
+  tools?: unknown[];
+}
+
+/**
+ * Prefix hashes of a request and the account to prefer for it
+ */
+export interface PromptCachePlan {
+  // Hashes of the preamble and each longer run of leading turns, shortest first
+  prefixes: string[];
+  // Account that last served the longest of these prefixes
+  account?: string;
+  // Whether cache_control breakpoints were added to the request
+  hinted: boolean;
+  // Remove the breakpoints again
+  stripHints(): void;
+}
+
+// Claude keeps ephemeral cache entries for five minutes after their last use
+const PREFIX_TTL_MS = 5 * 60 * 1000;
+const MAX_PREFIXES = 10000;
+
+// Prefixes shorter than this aren't cached by either backend
+const MIN_PREFIX_TOKENS = Number(process.env.PROMPT_CACHE_MIN_TOKENS) || 1024;
+
+const ENABLED = process.env.PROMPT_CACHE !== "off";
+
+// Characters per token when sizing prefixes
+const CHARS_PER_TOKEN = 4;
+
+const CACHE_CONTROL = { type: "ephemeral" };
+
+const prefixes = new Map<string, { account: string; expiresAt: number }>();
+
+// Turned off if the backend ever rejects cache_control
+let cacheHints = process.env.PROMPT_CACHE_HINTS === "on";
+
+function hash(previous: string, json: string): string {
+  return new Bun.CryptoHasher("sha256").update(previous).update(json).digest("hex");
+}
+
+/**
+ * Account that last served a prefix, if it is still fresh
+ */
+function lookup(key: string): string | undefined {
+  const entry = prefixes.get(key);
+  if (!entry) return undefined;
+
+  if (entry.expiresAt < Date.now()) {
+    prefixes.delete(key);
+    return undefined;
+  }
+  return entry.account;
+}
+
+/**
+ * Hash a request's stable prefixes: the system instruction and tools, then
+ * each run of leading turns. With hints enabled, Claude requests get
+ * breakpoints after the system instruction, at the longest prefix seen before
+ * (a cache read) and at the end of the conversation (a cache write for the
+ * next turn).
+ */
+export function planPromptCache(request: CacheableRequest, isClaude: boolean): PromptCachePlan | null {
+  if (!ENABLED) return null;
+
+  const preamble = JSON.stringify({ systemInstruction: request.systemInstruction, tools: request.tools });
+  let key = hash("", preamble);
+  let chars = preamble.length;
+
+  // Each entry is a prefix of the preamble plus `turns` leading turns
+  const candidates: Array<{ key: string; turns: number }> = [];
+  if (chars / CHARS_PER_TOKEN >= MIN_PREFIX_TOKENS) {
+    candidates.push({ key, turns: 0 });
+  }
+
+  for (const [i, content] of request.contents.entries()) {
+    const json = JSON.stringify(content);
+    key = hash(key, json);
+    chars += json.length;
+    if (chars / CHARS_PER_TOKEN >= MIN_PREFIX_TOKENS) {
+      candidates.push({ key, turns: i + 1 });
+    }
+  }
+
+  if (candidates.length === 0) return null;
+
+  const seen = [...candidates].reverse().find((c) => lookup(c.key));
+  const hinted: Array<Record<string, unknown>> = [];
+
+  if (isClaude && cacheHints) {
+    const lastPart = (parts?: Array<Record<string, unknown>>) => parts?.[parts.length - 1];
+    const breakpoints = [
+      lastPart(request.systemInstruction?.parts),
+      seen && seen.turns > 0 ? lastPart(request.contents[seen.turns - 1].parts) : undefined,
+      lastPart(request.contents[request.contents.length - 1]?.parts),
+    ];
+
+    for (const part of new Set(breakpoints)) {
+      if (!part) continue;
+      part.cache_control = CACHE_CONTROL;
+      hinted.push(part);
+    }
+  }
+
+  return {
+    prefixes: candidates.map((c) => c.key),
+    account: seen && lookup(seen.key),
+    hinted: hinted.length > 0,
+    stripHints() {
+      for (const part of hinted) {
+        delete part.cache_control;
+      }
+      this.hinted = false;
+    },
+  };
+}
+
+/**
+ * Remember which account served a request's prefixes
+ */
+export function recordPromptCache(plan: PromptCachePlan, account: string): void {
+  const expiresAt = Date.now() + PREFIX_TTL_MS;
+
+  for (const key of plan.prefixes) {
+    prefixes.delete(key);
+    prefixes.set(key, { account, expiresAt });
+  }
+
+  while (prefixes.size > MAX_PREFIXES) {
+    prefixes.delete(prefixes.keys().next().value!);
+  }
+}
+
+/**
+ * Stop sending cache_control after the backend rejected it, and strip it from
+ * the request so it can be resent
+ */
+export function rejectCacheHints(plan: PromptCachePlan): void {
+  if (cacheHints) {
+    console.log("[PromptCache] Backend rejected cache_control breakpoints, disabling them");
+  }
+  cacheHints = false;
+  plan.stripHints();
+}
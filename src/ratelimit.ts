@@ -0,0 +1,101 @@
+/**
+ * Per-key request and token rate limiting
+ */
+
+import type { ApiKey } from "./keystore";
+import { tokensUsedToday } from "./usage";
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  reason?: "requests" | "tokens";
+  retryAfter?: number;
+  headers: Record<string, string>;
+}
+
+const WINDOW_MS = 60 * 1000;
+
+// Request timestamps within the current window, per key
+const requestLog = new Map<string, number[]>();
+
+/**
+ * Read an optional numeric limit from the environment
+ */
+function envLimit(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Milliseconds until the next UTC midnight
+ */
+function msUntilTomorrow(): number {
+  const tomorrow = new Date();
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return tomorrow.getTime() - Date.now();
+}
+
+/**
+ * Format a duration the way OpenAI's x-ratelimit-reset-* headers do (e.g. "1h2m3s")
+ */
+function formatReset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  return `${hours ? `${hours}h` : ""}${hours || minutes ? `${minutes}m` : ""}${seconds}s`;
+}
+
+/**
+ * Get the request timestamps for a key within the current window
+ */
+function getRequests(apiKey: ApiKey): number[] {
+  const cutoff = Date.now() - WINDOW_MS;
+  const requests = (requestLog.get(apiKey.id) || []).filter((t) => t > cutoff);
+  requestLog.set(apiKey.id, requests);
+  return requests;
+}
+
+/**
+ * Check a key against its limits, counting the request if it is allowed
+ */
+export function checkRateLimit(apiKey: ApiKey): RateLimitStatus {
+  const rpm = apiKey.rpm ?? envLimit("DEFAULT_RPM");
+  const tpd = apiKey.tpd ?? envLimit("DEFAULT_TPD");
+  const requests = getRequests(apiKey);
+  const tokens = tpd !== undefined ? tokensUsedToday(apiKey.id) : 0;
+  const headers: Record<string, string> = {};
+
+  const requestReset = (): number =>
+    requests.length > 0 ? requests[0] + WINDOW_MS - Date.now() : 0;
+  const tokenReset = msUntilTomorrow();
+
+  let reason: RateLimitStatus["reason"];
+  let retryAfter: number | undefined;
+
+  if (rpm !== undefined && requests.length >= rpm) {
+    reason = "requests";
+    retryAfter = requestReset();
+  } else if (tpd !== undefined && tokens >= tpd) {
+    reason = "tokens";
+    retryAfter = tokenReset;
+  } else {
+    requests.push(Date.now());
+  }
+
+  if (rpm !== undefined) {
+    headers["x-ratelimit-limit-requests"] = String(rpm);
+    headers["x-ratelimit-remaining-requests"] = String(Math.max(0, rpm - requests.length));
+    headers["x-ratelimit-reset-requests"] = formatReset(requestReset());
+  }
+  if (tpd !== undefined) {
+    headers["x-ratelimit-limit-tokens"] = String(tpd);
+    headers["x-ratelimit-remaining-tokens"] = String(Math.max(0, tpd - tokens));
+    headers["x-ratelimit-reset-tokens"] = formatReset(tokenReset);
+  }
+  if (retryAfter !== undefined) {
+    headers["retry-after"] = String(Math.max(1, Math.ceil(retryAfter / 1000)));
+  }
+
+  return { allowed: reason === undefined, reason, retryAfter, headers };
+}
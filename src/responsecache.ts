@@ -0,0 +1,189 @@
+/**
+ * Opt-in on-disk cache of responses to deterministic (temperature 0) requests
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import type { StreamChunk } from "./client";
+import type { AntigravityRequest } from "./converter";
+import { CONFIG_DIR } from "./storage";
+
+const CACHE_DB = join(CONFIG_DIR, "response-cache.db");
+
+const ENABLED = process.env.RESPONSE_CACHE === "on";
+const TTL_MS = (Number(process.env.RESPONSE_CACHE_TTL) || 24 * 60 * 60) * 1000;
+const MAX_BYTES = Number(process.env.RESPONSE_CACHE_MAX_BYTES) || 100 * 1024 * 1024;
+
+type ResponsePart = Record<string, unknown> & { text?: string; thought?: boolean };
+
+let db: Database | null = null;
+
+/**
+ * Open the cache database, creating the schema on first use
+ */
+function getDb(): Database {
+  if (db) return db;
+
+  mkdirSync(CONFIG_DIR, { recursive: true });
+  db = new Database(CACHE_DB, { create: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(`
+    CREATE TABLE IF NOT EXISTS responses (
+      key TEXT PRIMARY KEY,
+      model TEXT NOT NULL,
+      response TEXT NOT NULL,
+      bytes INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER NOT NULL
+    )
+  `);
+  db.run("CREATE INDEX IF NOT EXISTS responses_last_used ON responses (last_used_at)");
+
+  return db;
+}
+
+/**
+ * JSON with object keys sorted, so equal requests always serialize the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Cache key for a converted request, or null if caching is off or the
+ * request isn't deterministic
+ */
+export function responseCacheKey(model: string, request: AntigravityRequest): string | null {
+  if (!ENABLED || request.generationConfig?.temperature !== 0) return null;
+
+  return new Bun.CryptoHasher("sha256").update(canonicalJson({ model, request })).digest("hex");
+}
+
+/**
+ * How a request's Cache-Control header lets it use the cache: `no-cache`
+ * skips the lookup but stores the fresh response, `no-store` skips both
+ */
+export function cacheDirectives(cacheControl: string | undefined): { read: boolean; write: boolean } {
+  const value = cacheControl?.toLowerCase() || "";
+  const noStore = /\bno-store\b/.test(value);
+  return { read: !noStore && !/\bno-cache\b/.test(value), write: !noStore };
+}
+
+/**
+ * Look up a cached Antigravity response
+ */
+export function getCachedResponse(key: string): unknown | null {
+  const database = getDb();
+  const row = database
+    .query("SELECT response, created_at FROM responses WHERE key = ?")
+    .get(key) as { response: string; created_at: number } | null;
+  if (!row) return null;
+
+  if (row.created_at + TTL_MS < Date.now()) {
+    database.query("DELETE FROM responses WHERE key = ?").run(key);
+    return null;
+  }
+
+  database.query("UPDATE responses SET last_used_at = ? WHERE key = ?").run(Date.now(), key);
+  return JSON.parse(row.response);
+}
+
+/**
+ * Store a response, evicting expired and then least recently used entries
+ * beyond the size limit
+ */
+export function cacheResponse(key: string, model: string, response: unknown): void {
+  const json = JSON.stringify(response);
+  const now = Date.now();
+
+  try {
+    const database = getDb();
+    database.transaction(() => {
+      database
+        .query(
+          `INSERT OR REPLACE INTO responses (key, model, response, bytes, created_at, last_used_at)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run(key, model, json, json.length, now, now);
+      database.query("DELETE FROM responses WHERE created_at < ?").run(now - TTL_MS);
+
+      let { total } = database
+        .query("SELECT COALESCE(SUM(bytes), 0) AS total FROM responses")
+        .get() as { total: number };
+      if (total <= MAX_BYTES) return;
+
+      const entries = database
+        .query("SELECT key, bytes FROM responses ORDER BY last_used_at")
+        .all() as Array<{ key: string; bytes: number }>;
+      const remove = database.query("DELETE FROM responses WHERE key = ?");
+      for (const entry of entries) {
+        if (total <= MAX_BYTES) break;
+        remove.run(entry.key);
+        total -= entry.bytes;
+      }
+    })();
+  } catch (err) {
+    console.error("[ResponseCache] Failed to store response:", err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * Pass a stream through, caching the assembled response once it completes
+ */
+export async function* cacheStream(
+  key: string,
+  model: string,
+  chunks: AsyncIterable<StreamChunk>
+): AsyncGenerator<StreamChunk> {
+  const parts: ResponsePart[] = [];
+  let usage: StreamChunk["usage"];
+
+  for await (const chunk of chunks) {
+    if (chunk.usage) usage = chunk.usage;
+
+    const signature = chunk.signature ? { thoughtSignature: chunk.signature } : {};
+    const last = parts[parts.length - 1];
+
+    if (chunk.type === "thinking" || (chunk.type === "content" && (chunk.content || chunk.signature))) {
+      const thought = chunk.type === "thinking";
+      const text = (thought ? chunk.thinking : chunk.content) || "";
+
+      // Merge consecutive deltas of the same kind into one part
+      if (last && "text" in last && Boolean(last.thought) === thought && !last.thoughtSignature) {
+        last.text += text;
+        Object.assign(last, signature);
+      } else {
+        parts.push({ text, ...(thought ? { thought: true } : {}), ...signature });
+      }
+    } else if (chunk.type === "tool_call" && chunk.toolCall) {
+      parts.push({ functionCall: chunk.toolCall, ...signature });
+    } else if (chunk.type === "done") {
+      cacheResponse(key, model, {
+        // Truncated streams replay as truncated
+        candidates: [{ content: { role: "model", parts }, finishReason: chunk.finishReason ?? "STOP" }],
+        ...(usage
+          ? {
+            usageMetadata: {
+              promptTokenCount: usage.promptTokens,
+              candidatesTokenCount: usage.completionTokens,
+              thoughtsTokenCount: usage.thinkingTokens,
+              totalTokenCount: usage.totalTokens,
+            },
+          }
+          : {}),
+      });
+    }
+
+    yield chunk;
+  }
+}
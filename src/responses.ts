@@ -0,0 +1,510 @@
+/**
+ * Convert between OpenAI Responses API format and the chat completions pipeline
+ */
+
+import type { StreamChunk } from "./client";
+import type { OpenAIChatRequest, OpenAIChatResponse, OpenAIMessage } from "./converter";
+import { recordSignatures } from "./signatures";
+
+export type ResponsesInputItem =
+  | {
+    type?: "message";
+    role: "user" | "assistant" | "system" | "developer";
+    content:
+    | string
+    | Array<{
+      type: string;
+      text?: string;
+      image_url?: string;
+      file_data?: string;
+      file_id?: string;
+      filename?: string;
+    }>;
+  }
+  | { type: "function_call"; id?: string; call_id: string; name: string; arguments: string }
+  | { type: "function_call_output"; call_id: string; output: string }
+  | { type: "reasoning"; id?: string; summary?: Array<{ type: string; text: string }> };
+
+export interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  temperature?: number;
+  top_p?: number;
+  max_output_tokens?: number;
+  stream?: boolean;
+  tools?: Array<{
+    type: string;
+    name?: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  }>;
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; name: string };
+  reasoning?: { effort?: string; summary?: string };
+  text?: {
+    format?:
+    | { type: "text" | "json_object" }
+    | {
+      type: "json_schema";
+      name: string;
+      description?: string;
+      schema?: Record<string, unknown>;
+      strict?: boolean;
+    };
+  };
+  metadata?: Record<string, string>;
+  truncation?: "auto" | "disabled";
+}
+
+export type ResponsesOutputItem =
+  | {
+    type: "reasoning";
+    id: string;
+    summary: Array<{ type: "summary_text"; text: string }>;
+  }
+  | {
+    type: "message";
+    id: string;
+    status: "in_progress" | "completed";
+    role: "assistant";
+    content: Array<{ type: "output_text"; text: string; annotations: unknown[] }>;
+  }
+  | {
+    type: "function_call";
+    id: string;
+    call_id: string;
+    name: string;
+    arguments: string;
+    status: "in_progress" | "completed";
+  };
+
+export interface ResponseObject {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "in_progress" | "completed" | "incomplete" | "failed";
+  model: string;
+  instructions: string | null;
+  output: ResponsesOutputItem[];
+  output_text: string;
+  incomplete_details: { reason: string } | null;
+  error: { code: string; message: string } | null;
+  tools: ResponsesRequest["tools"];
+  tool_choice: ResponsesRequest["tool_choice"];
+  temperature: number | null;
+  top_p: number | null;
+  max_output_tokens: number | null;
+  metadata: Record<string, string>;
+  usage: {
+    input_tokens: number;
+    input_tokens_details?: { cached_tokens: number };
+    output_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+/**
+ * Convert a Responses API request to an OpenAI chat request
+ */
+export function convertResponsesToChat(request: ResponsesRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+
+  if (request.instructions) {
+    messages.push({ role: "system", content: request.instructions });
+  }
+
+  const items: ResponsesInputItem[] =
+    typeof request.input === "string"
+      ? [{ role: "user", content: request.input }]
+      : request.input;
+
+  // Function call outputs only carry the call id, so remember which function each id belongs to
+  const callNames = new Map<string, string>();
+
+  for (const item of items) {
+    if (item.type === "function_call") {
+      callNames.set(item.call_id, item.name);
+
+      // Attach consecutive function calls to the preceding assistant message
+      const toolCall = {
+        id: item.call_id,
+        type: "function" as const,
+        function: { name: item.name, arguments: item.arguments },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant") {
+        last.tool_calls = [...(last.tool_calls || []), toolCall];
+      } else {
+        messages.push({ role: "assistant", content: "", tool_calls: [toolCall] });
+      }
+    } else if (item.type === "function_call_output") {
+      messages.push({
+        role: "tool",
+        tool_call_id: item.call_id,
+        name: callNames.get(item.call_id),
+        content: item.output,
+      });
+    } else if (item.type === "reasoning") {
+      // Reasoning items cannot be replayed through the chat pipeline
+      continue;
+    } else {
+      const role = item.role === "developer" ? "system" : item.role;
+
+      if (typeof item.content === "string") {
+        messages.push({ role, content: item.content });
+        continue;
+      }
+
+      const content: Extract<OpenAIMessage["content"], unknown[]> = [];
+      for (const part of item.content) {
+        if ((part.type === "input_text" || part.type === "output_text") && part.text) {
+          content.push({ type: "text", text: part.text });
+        } else if (part.type === "input_image" && part.image_url) {
+          content.push({ type: "image_url", image_url: { url: part.image_url } });
+        } else if (part.type === "input_file") {
+          content.push({
+            type: "file",
+            file: { file_data: part.file_data, file_id: part.file_id, filename: part.filename },
+          });
+        }
+      }
+
+      // System messages are only read as plain strings
+      messages.push({
+        role,
+        content: role === "system" ? content.map((c) => c.text || "").join("\n") : content,
+      });
+    }
+  }
+
+  const tools = (request.tools || [])
+    .filter((t) => t.type === "function" && t.name)
+    .map((t) => ({
+      type: "function" as const,
+      function: {
+        name: t.name!,
+        description: t.description,
+        parameters: t.parameters,
+      },
+    }));
+
+  const format = request.text?.format;
+
+  return {
+    model: request.model,
+    messages,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    max_tokens: request.max_output_tokens,
+    stream: request.stream,
+    truncation: request.truncation,
+    ...(request.reasoning?.effort
+      ? { reasoning_effort: request.reasoning.effort as OpenAIChatRequest["reasoning_effort"] }
+      : {}),
+    ...(tools.length > 0 ? { tools } : {}),
+    ...(format?.type === "json_schema"
+      ? {
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: format.name,
+            description: format.description,
+            schema: format.schema,
+            strict: format.strict,
+          },
+        },
+      }
+      : format
+        ? { response_format: { type: format.type } }
+        : {}),
+    ...(request.tool_choice
+      ? {
+        tool_choice:
+          typeof request.tool_choice === "object"
+            ? { type: "function", function: { name: request.tool_choice.name } }
+            : request.tool_choice,
+      }
+      : {}),
+  };
+}
+
+/**
+ * Create a Responses API response object
+ */
+export function createResponseObject(
+  id: string,
+  request: ResponsesRequest,
+  status: ResponseObject["status"],
+  output: ResponsesOutputItem[] = [],
+  usage: ResponseObject["usage"] = null
+): ResponseObject {
+  return {
+    id,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status,
+    model: request.model,
+    instructions: request.instructions || null,
+    output,
+    output_text: output
+      .flatMap((item) => (item.type === "message" ? item.content.map((c) => c.text) : []))
+      .join(""),
+    incomplete_details: status === "incomplete" ? { reason: "max_output_tokens" } : null,
+    error: null,
+    tools: request.tools || [],
+    tool_choice: request.tool_choice || "auto",
+    temperature: request.temperature ?? null,
+    top_p: request.top_p ?? null,
+    max_output_tokens: request.max_output_tokens ?? null,
+    metadata: request.metadata || {},
+    usage,
+  };
+}
+
+/**
+ * Convert an OpenAI chat response to a Responses API response object
+ */
+export function convertChatToResponse(
+  chat: OpenAIChatResponse,
+  request: ResponsesRequest
+): ResponseObject {
+  const output: ResponsesOutputItem[] = [];
+  const choice = chat.choices[0];
+
+  if (choice?.message.reasoning_content) {
+    output.push({
+      type: "reasoning",
+      id: `rs_${crypto.randomUUID().replace(/-/g, "")}`,
+      summary: [{ type: "summary_text", text: choice.message.reasoning_content }],
+    });
+  }
+
+  if (choice?.message.content) {
+    output.push({
+      type: "message",
+      id: `msg_${crypto.randomUUID().replace(/-/g, "")}`,
+      status: "completed",
+      role: "assistant",
+      content: [{ type: "output_text", text: choice.message.content, annotations: [] }],
+    });
+  }
+
+  for (const toolCall of choice?.message.tool_calls || []) {
+    output.push({
+      type: "function_call",
+      id: `fc_${crypto.randomUUID().replace(/-/g, "")}`,
+      call_id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      status: "completed",
+    });
+  }
+
+  return createResponseObject(
+    `resp_${crypto.randomUUID().replace(/-/g, "")}`,
+    request,
+    choice?.finish_reason === "length" ? "incomplete" : "completed",
+    output,
+    chat.usage
+      ? {
+        input_tokens: chat.usage.prompt_tokens,
+        ...(chat.usage.prompt_tokens_details ? { input_tokens_details: chat.usage.prompt_tokens_details } : {}),
+        output_tokens: chat.usage.completion_tokens,
+        total_tokens: chat.usage.total_tokens,
+      }
+      : null
+  );
+}
+
+/**
+ * Format a Responses API SSE event
+ */
+export function formatResponsesSSE(data: { type: string;[key: string]: unknown }): string {
+  return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Translate Antigravity stream chunks into the Responses API event sequence
+ */
+export async function* streamAntigravityToResponses(
+  chunks: AsyncIterable<StreamChunk>,
+  request: ResponsesRequest,
+  includeReasoning = true
+): AsyncGenerator<string> {
+  const id = `resp_${crypto.randomUUID().replace(/-/g, "")}`;
+  const output: ResponsesOutputItem[] = [];
+  let sequenceNumber = 0;
+  let openItem: Extract<ResponsesOutputItem, { type: "reasoning" | "message" }> | null = null;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cachedTokens = 0;
+  const signatures = recordSignatures();
+
+  const event = (type: string, data: Record<string, unknown>): string =>
+    formatResponsesSSE({ type, sequence_number: sequenceNumber++, ...data });
+
+  // Emit the closing events for the currently open reasoning or message item
+  const closeItem = function* (): Generator<string> {
+    if (!openItem) return;
+    const item = openItem;
+    const outputIndex = output.length - 1;
+    openItem = null;
+
+    if (item.type === "reasoning") {
+      const text = item.summary[0].text;
+      yield event("response.reasoning_summary_text.done", {
+        item_id: item.id,
+        output_index: outputIndex,
+        summary_index: 0,
+        text,
+      });
+      yield event("response.reasoning_summary_part.done", {
+        item_id: item.id,
+        output_index: outputIndex,
+        summary_index: 0,
+        part: { type: "summary_text", text },
+      });
+    } else {
+      const part = item.content[0];
+      item.status = "completed";
+      yield event("response.output_text.done", {
+        item_id: item.id,
+        output_index: outputIndex,
+        content_index: 0,
+        text: part.text,
+      });
+      yield event("response.content_part.done", {
+        item_id: item.id,
+        output_index: outputIndex,
+        content_index: 0,
+        part,
+      });
+    }
+
+    yield event("response.output_item.done", { output_index: outputIndex, item });
+  };
+
+  yield event("response.created", { response: createResponseObject(id, request, "in_progress") });
+  yield event("response.in_progress", { response: createResponseObject(id, request, "in_progress") });
+
+  for await (const chunk of chunks) {
+    if (chunk.usage) {
+      inputTokens = chunk.usage.promptTokens || inputTokens;
+      outputTokens = chunk.usage.completionTokens || outputTokens;
+      cachedTokens = chunk.usage.cachedTokens || cachedTokens;
+    }
+
+    if (chunk.type === "thinking") {
+      signatures.thinking(chunk.thinking || "", chunk.signature);
+    } else if (chunk.type === "content") {
+      signatures.content(chunk.content || "", chunk.signature);
+    }
+
+    if (chunk.type === "thinking" && chunk.thinking && includeReasoning) {
+      if (openItem?.type !== "reasoning") {
+        yield* closeItem();
+        openItem = {
+          type: "reasoning",
+          id: `rs_${crypto.randomUUID().replace(/-/g, "")}`,
+          summary: [{ type: "summary_text", text: "" }],
+        };
+        output.push(openItem);
+        yield event("response.output_item.added", {
+          output_index: output.length - 1,
+          item: { ...openItem, summary: [] },
+        });
+        yield event("response.reasoning_summary_part.added", {
+          item_id: openItem.id,
+          output_index: output.length - 1,
+          summary_index: 0,
+          part: { type: "summary_text", text: "" },
+        });
+      }
+      openItem.summary[0].text += chunk.thinking;
+      yield event("response.reasoning_summary_text.delta", {
+        item_id: openItem.id,
+        output_index: output.length - 1,
+        summary_index: 0,
+        delta: chunk.thinking,
+      });
+    } else if (chunk.type === "content" && chunk.content) {
+      if (openItem?.type !== "message") {
+        yield* closeItem();
+        openItem = {
+          type: "message",
+          id: `msg_${crypto.randomUUID().replace(/-/g, "")}`,
+          status: "in_progress",
+          role: "assistant",
+          content: [{ type: "output_text", text: "", annotations: [] }],
+        };
+        output.push(openItem);
+        yield event("response.output_item.added", {
+          output_index: output.length - 1,
+          item: { ...openItem, content: [] },
+        });
+        yield event("response.content_part.added", {
+          item_id: openItem.id,
+          output_index: output.length - 1,
+          content_index: 0,
+          part: { type: "output_text", text: "", annotations: [] },
+        });
+      }
+      openItem.content[0].text += chunk.content;
+      yield event("response.output_text.delta", {
+        item_id: openItem.id,
+        output_index: output.length - 1,
+        content_index: 0,
+        delta: chunk.content,
+      });
+    } else if (chunk.type === "tool_call" && chunk.toolCall) {
+      yield* closeItem();
+      const args = JSON.stringify(chunk.toolCall.args);
+      const callId = chunk.toolCall.id || `call_${crypto.randomUUID().slice(0, 8)}`;
+      signatures.toolCall(callId, chunk.signature);
+      const item: ResponsesOutputItem = {
+        type: "function_call",
+        id: `fc_${crypto.randomUUID().replace(/-/g, "")}`,
+        call_id: callId,
+        name: chunk.toolCall.name,
+        arguments: "",
+        status: "in_progress",
+      };
+      output.push(item);
+      const outputIndex = output.length - 1;
+
+      yield event("response.output_item.added", { output_index: outputIndex, item: { ...item } });
+      yield event("response.function_call_arguments.delta", {
+        item_id: item.id,
+        output_index: outputIndex,
+        delta: args,
+      });
+      item.arguments = args;
+      item.status = "completed";
+      yield event("response.function_call_arguments.done", {
+        item_id: item.id,
+        output_index: outputIndex,
+        arguments: args,
+      });
+      yield event("response.output_item.done", { output_index: outputIndex, item });
+    } else if (chunk.type === "done") {
+      signatures.finish();
+      yield* closeItem();
+      // A stream cut off by the output limit ends as incomplete, as in the non-streaming response
+      const status = chunk.finishReason === "MAX_TOKENS" ? "incomplete" : "completed";
+      yield event(`response.${status}`, {
+        response: createResponseObject(id, request, status, output, {
+          input_tokens: inputTokens,
+          ...(cachedTokens ? { input_tokens_details: { cached_tokens: cachedTokens } } : {}),
+          output_tokens: outputTokens,
+          total_tokens: inputTokens + outputTokens,
+        }),
+      });
+      return;
+    } else if (chunk.type === "error") {
+      const failed = createResponseObject(id, request, "failed", output);
+      failed.error = { code: "server_error", message: chunk.error || "Unknown error" };
+      yield event("response.failed", { response: failed });
+      return;
+    }
+  }
+}
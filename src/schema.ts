@@ -0,0 +1,209 @@
+/**
+ * Normalize JSON Schemas from client tool definitions for the backend model family
+ */
+
+export type SchemaFamily = "claude" | "gemini";
+
+type Schema = Record<string, unknown>;
+
+// Keywords Gemini function declarations accept (OpenAPI 3.0 subset)
+const GEMINI_KEYWORDS = new Set([
+  "type",
+  "format",
+  "title",
+  "description",
+  "nullable",
+  "enum",
+  "properties",
+  "required",
+  "items",
+  "anyOf",
+  "minItems",
+  "maxItems",
+  "minimum",
+  "maximum",
+]);
+
+// Formats Gemini understands, per type
+const GEMINI_FORMATS: Record<string, string[]> = {
+  string: ["enum", "date-time"],
+  number: ["float", "double"],
+  integer: ["int32", "int64"],
+};
+
+// Keywords that only describe the schema document itself
+const META_KEYWORDS = ["$schema", "$id", "$comment", "$defs", "definitions"];
+
+// Maximum depth of nested $ref expansion before giving up on a recursive schema
+const MAX_REF_DEPTH = 8;
+
+function isSchema(value: unknown): value is Schema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalize a tool's parameter schema so the backend accepts it: `$ref`s are
+ * inlined, and for Gemini nullable unions are rewritten and unsupported
+ * keywords stripped. Claude accepts standard JSON Schema, so it only loses the
+ * definitions and meta keywords.
+ */
+export function sanitizeSchema(schema: unknown, family: SchemaFamily): Schema {
+  const root = isSchema(schema) ? schema : {};
+  const definitions = {
+    ...(isSchema(root.definitions) ? root.definitions : {}),
+    ...(isSchema(root.$defs) ? root.$defs : {}),
+  };
+
+  // Clients often leave `type` off the root when it has properties
+  const typed =
+    root.type === undefined && (isSchema(root.properties) || Array.isArray(root.required))
+      ? { ...root, type: "object" }
+      : root;
+
+  const result = normalize(typed, family, definitions, []);
+
+  // Function parameters must be an object schema
+  if (result.type !== "object") {
+    return { type: "object", properties: {} };
+  }
+  if (!isSchema(result.properties)) {
+    result.properties = {};
+  }
+
+  return result;
+}
+
+/**
+ * Normalize a schema node and its children
+ */
+function normalize(
+  node: unknown,
+  family: SchemaFamily,
+  definitions: Schema,
+  refs: string[]
+): Schema {
+  if (!isSchema(node)) return {};
+
+  // Inline local references, stopping at recursive ones
+  if (typeof node.$ref === "string") {
+    const { $ref, ...rest } = node;
+    const name = $ref.split("/").pop() || "";
+    const target = definitions[name];
+
+    if (!isSchema(target) || refs.includes(name) || refs.length >= MAX_REF_DEPTH) {
+      const description = rest.description ?? (isSchema(target) ? target.description : undefined);
+      return { type: "object", ...(description ? { description } : {}) };
+    }
+
+    return normalize({ ...target, ...rest }, family, definitions, [...refs, name]);
+  }
+
+  const result: Schema = {};
+
+  for (const [key, value] of Object.entries(node)) {
+    if (META_KEYWORDS.includes(key)) continue;
+
+    if (key === "properties" && isSchema(value)) {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, child]) => [name, normalize(child, family, definitions, refs)])
+      );
+    } else if (key === "items") {
+      // Tuple schemas are narrowed to their first item
+      const items = Array.isArray(value) ? value[0] : value;
+      result.items = normalize(items, family, definitions, refs);
+    } else if (key === "anyOf" || key === "oneOf" || key === "allOf") {
+      result[key] = Array.isArray(value)
+        ? value.map((child) => normalize(child, family, definitions, refs))
+        : value;
+    } else if (key === "additionalProperties" && isSchema(value)) {
+      result.additionalProperties = normalize(value, family, definitions, refs);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return family === "gemini" ? toGeminiSchema(result) : result;
+}
+
+/**
+ * Rewrite an already normalized node into the subset Gemini accepts
+ */
+function toGeminiSchema(node: Schema): Schema {
+  let result: Schema = { ...node };
+
+  // Merge allOf members into the node
+  if (Array.isArray(result.allOf)) {
+    const members = result.allOf as Schema[];
+    delete result.allOf;
+    for (const member of members) {
+      const properties = { ...(member.properties as Schema), ...(result.properties as Schema) };
+      const required = [...((member.required as string[]) || []), ...((result.required as string[]) || [])];
+
+      result = { ...member, ...result };
+      if (Object.keys(properties).length > 0) result.properties = properties;
+      if (required.length > 0) result.required = required;
+    }
+  }
+
+  // Type arrays like ["string", "null"] become a single nullable type
+  if (Array.isArray(result.type)) {
+    const types = result.type.filter((t) => t !== "null");
+    if (types.length < result.type.length) result.nullable = true;
+    if (types.length === 1) {
+      result.type = types[0];
+    } else {
+      delete result.type;
+      if (types.length > 1) result.anyOf = types.map((type) => ({ type }));
+    }
+  }
+
+  // Unions with null become nullable; a single remaining member is merged in
+  const union = result.anyOf ?? result.oneOf;
+  delete result.oneOf;
+  if (Array.isArray(union)) {
+    const members = (union as Schema[]).filter((m) => m.type !== "null");
+    if (members.length < union.length) result.nullable = true;
+
+    if (members.length === 1) {
+      delete result.anyOf;
+      const nullable = result.nullable || members[0].nullable;
+      result = { ...members[0], ...result };
+      if (nullable) result.nullable = true;
+    } else if (members.length === 0) {
+      delete result.anyOf;
+    } else {
+      result.anyOf = members;
+    }
+  }
+
+  if (result.const !== undefined) {
+    result.enum = [result.const];
+  }
+
+  // Gemini only supports string enums
+  if (Array.isArray(result.enum)) {
+    result.enum = result.enum.filter((v) => v !== null).map(String);
+    if (result.type === undefined || result.type === "string") {
+      result.type = "string";
+    } else {
+      delete result.enum;
+    }
+  }
+
+  if (typeof result.format === "string") {
+    const formats = GEMINI_FORMATS[String(result.type)] || [];
+    if (!formats.includes(result.format)) delete result.format;
+  }
+
+  if (Array.isArray(result.required)) {
+    const properties = isSchema(result.properties) ? result.properties : {};
+    const required = [...new Set(result.required as string[])].filter((name) => name in properties);
+    if (required.length > 0) {
+      result.required = required;
+    } else {
+      delete result.required;
+    }
+  }
+
+  return Object.fromEntries(Object.entries(result).filter(([key]) => GEMINI_KEYWORDS.has(key)));
+}
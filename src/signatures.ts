@@ -0,0 +1,101 @@
+/**
+ * Server-side cache of thought signatures for multi-turn tool use.
+ *
+ * Thinking models sign their reasoning and expect the signature back on later
+ * turns. OpenAI-style clients drop it, so it is remembered here by tool call id
+ * (or by a hash of the assistant text for turns without tool calls) and
+ * re-attached when the history is converted back to Antigravity format.
+ */
+
+/**
+ * A cached signature. `thinking` is set when the signature belongs to a
+ * signed thinking block (Claude), which must be replayed ahead of the calls;
+ * otherwise the signature rides on the part itself (Gemini).
+ */
+export interface CachedSignature {
+  signature: string;
+  thinking?: string;
+}
+
+const SIGNATURE_TTL_MS = 60 * 60 * 1000;
+const MAX_SIGNATURES = 10000;
+
+const cache = new Map<string, CachedSignature & { expiresAt: number }>();
+
+/**
+ * Cache key for an assistant turn without tool calls
+ */
+export function conversationKey(text: string): string {
+  return `text:${new Bun.CryptoHasher("sha256").update(text).digest("hex")}`;
+}
+
+/**
+ * Remember a signature, evicting the oldest entries beyond the cache size
+ */
+function cacheSignature(key: string, entry: CachedSignature): void {
+  cache.delete(key);
+  cache.set(key, { ...entry, expiresAt: Date.now() + SIGNATURE_TTL_MS });
+
+  while (cache.size > MAX_SIGNATURES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+/**
+ * Look up a signature by tool call id or conversation key
+ */
+export function getSignature(key: string): CachedSignature | undefined {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+
+  if (entry.expiresAt < Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+
+  const { expiresAt: _, ...signature } = entry;
+  return signature;
+}
+
+/**
+ * Start recording the signatures of one model response. Feed it the response
+ * parts in order as they are converted, then call `finish`.
+ */
+export function recordSignatures() {
+  let thinking = "";
+  let thoughtSignature: string | undefined;
+  let textSignature: string | undefined;
+  let content = "";
+  let hasToolCalls = false;
+
+  return {
+    thinking(text: string, signature?: string): void {
+      thinking += text;
+      if (signature) thoughtSignature = signature;
+    },
+
+    content(text: string, signature?: string): void {
+      content += text;
+      if (signature) textSignature = signature;
+    },
+
+    toolCall(id: string, signature?: string): void {
+      hasToolCalls = true;
+      if (signature) {
+        cacheSignature(id, { signature });
+      } else if (thoughtSignature) {
+        cacheSignature(id, { signature: thoughtSignature, thinking });
+      }
+    },
+
+    finish(): void {
+      if (hasToolCalls || !content) return;
+
+      if (thoughtSignature) {
+        cacheSignature(conversationKey(content), { signature: thoughtSignature, thinking });
+      } else if (textSignature) {
+        cacheSignature(conversationKey(content), { signature: textSignature });
+      }
+    },
+  };
+}
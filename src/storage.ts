@@ -7,18 +7,40 @@ import { join } from "path";
 import { mkdir, readFile, writeFile, unlink } from "fs/promises";
 import type { AuthTokens } from "./oauth";
 
-const CONFIG_DIR = join(homedir(), ".config", "antigravity-openai");
+export const CONFIG_DIR = join(homedir(), ".config", "antigravity-openai");
 const TOKENS_FILE = join(CONFIG_DIR, "tokens.json");
 
-interface StoredTokens {
-  version: number;
+/**
+ * An authenticated account in the pool, with its rate limit state
+ */
+export interface StoredAccount extends AuthTokens {
+  lastUsedAt?: number;
+  lastLimitedAt?: number;
+  // Cooldowns for models the account is out of quota for, by upstream model
+  modelRateLimits?: Record<string, number>;
+}
+
+interface StoredTokensV1 {
+  version: 1;
   tokens: AuthTokens;
 }
 
+interface StoredTokensV2 {
+  version: 2;
+  accounts: StoredAccount[];
+}
+
+/**
+ * An account's model cooldowns that haven't passed yet
+ */
+export function activeCooldowns(account: StoredAccount, now = Date.now()): Record<string, number> {
+  return Object.fromEntries(Object.entries(account.modelRateLimits || {}).filter(([, until]) => until > now));
+}
+
 /**
  * Ensure the config directory exists
  */
-async function ensureConfigDir(): Promise<void> {
+export async function ensureConfigDir(): Promise<void> {
   try {
     await mkdir(CONFIG_DIR, { recursive: true });
   } catch {
@@ -27,34 +49,37 @@ async function ensureConfigDir(): Promise<void> {
 }
 
 /**
- * Save tokens to disk
+ * Save the account pool to disk
  */
-export async function saveTokens(tokens: AuthTokens): Promise<void> {
+export async function saveAccounts(accounts: StoredAccount[]): Promise<void> {
   await ensureConfigDir();
 
-  const data: StoredTokens = {
-    version: 1,
-    tokens,
+  const data: StoredTokensV2 = {
+    version: 2,
+    accounts,
   };
 
   await writeFile(TOKENS_FILE, JSON.stringify(data, null, 2), "utf-8");
 }
 
 /**
- * Load tokens from disk
+ * Load the account pool from disk, migrating single-account files
  */
-export async function loadTokens(): Promise<AuthTokens | null> {
+export async function loadAccounts(): Promise<StoredAccount[]> {
   try {
     const content = await readFile(TOKENS_FILE, "utf-8");
-    const data = JSON.parse(content) as StoredTokens;
+    const data = JSON.parse(content) as StoredTokensV1 | StoredTokensV2;
 
-    if (data.version !== 1 || !data.tokens) {
-      return null;
+    if (data.version === 1 && data.tokens) {
+      return [data.tokens];
+    }
+    if (data.version === 2 && Array.isArray(data.accounts)) {
+      return data.accounts;
     }
 
-    return data.tokens;
+    return [];
   } catch {
-    return null;
+    return [];
   }
 }
 
@@ -73,6 +98,6 @@ export async function clearTokens(): Promise<void> {
  * Check if tokens are stored
  */
 export async function hasStoredTokens(): Promise<boolean> {
-  const tokens = await loadTokens();
-  return tokens !== null;
+  const accounts = await loadAccounts();
+  return accounts.length > 0;
 }
@@ -0,0 +1,167 @@
+/**
+ * Token counting and context length checks for outgoing requests
+ */
+
+import { AVAILABLE_MODELS } from "./models";
+import { client } from "./client";
+import { getModelStatus } from "./discovery";
+import type { AntigravityContent, AntigravityRequest } from "./converter";
+
+// Characters per token for the local estimate
+const CHARS_PER_TOKEN = 4;
+
+// Tokens charged for an image or other media part in the local estimate
+const MEDIA_TOKENS = 258;
+
+// Per-turn overhead for role markers in the local estimate
+const TURN_TOKENS = 4;
+
+// Prompts estimated under this share of the limit fit without asking the backend
+const EXACT_COUNT_THRESHOLD = 0.5;
+
+/**
+ * What to do with a prompt that doesn't fit: reject it, or drop the oldest turns
+ */
+export type Truncation = "auto" | "disabled";
+
+export const DEFAULT_TRUNCATION: Truncation = process.env.CONTEXT_TRUNCATION === "auto" ? "auto" : "disabled";
+
+/**
+ * A prompt plus the requested completion exceed the model's context length
+ */
+export class ContextLengthError extends Error {
+  constructor(
+    public readonly limit: number,
+    public readonly promptTokens: number,
+    public readonly completionTokens: number
+  ) {
+    super(
+      `This model's maximum context length is ${limit} tokens. However, you requested ` +
+      `${promptTokens + completionTokens} tokens (${promptTokens} in the messages, ` +
+      `${completionTokens} in the completion). Please reduce the length of the messages or completion.`
+    );
+    this.name = "ContextLengthError";
+  }
+}
+
+function estimateText(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens in one conversation turn
+ */
+function estimateContent(content: AntigravityContent): number {
+  let tokens = TURN_TOKENS;
+
+  for (const part of content.parts) {
+    if (part.text) {
+      tokens += estimateText(part.text);
+    } else if (part.functionCall) {
+      tokens += estimateText(part.functionCall.name + JSON.stringify(part.functionCall.args));
+    } else if (part.functionResponse) {
+      tokens += estimateText(part.functionResponse.name + JSON.stringify(part.functionResponse.response));
+    } else if (part.inlineData) {
+      // Text documents cost about their decoded length; other media a flat amount
+      tokens += part.inlineData.mimeType.startsWith("text/") || part.inlineData.mimeType === "application/json"
+        ? estimateText(Buffer.from(part.inlineData.data, "base64").toString("utf-8"))
+        : MEDIA_TOKENS;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokens in the system instruction and tool declarations
+ */
+function estimatePreamble(request: AntigravityRequest): number {
+  const system = (request.systemInstruction?.parts || []).map((p) => p.text).join("");
+  const tools = request.tools ? JSON.stringify(request.tools) : "";
+  return estimateText(system) + estimateText(tools);
+}
+
+/**
+ * Estimate a request's prompt tokens locally
+ */
+export function estimateTokens(request: AntigravityRequest): number {
+  return request.contents.reduce((sum, content) => sum + estimateContent(content), estimatePreamble(request));
+}
+
+/**
+ * Count a request's prompt tokens with the backend, falling back to the
+ * local estimate as soon as the count fails for any reason
+ */
+export async function countTokens(
+  model: string,
+  request: AntigravityRequest
+): Promise<{ tokens: number; estimated: boolean }> {
+  const baseModel = AVAILABLE_MODELS[model]?.baseModel ?? model;
+
+  try {
+    // The backend counts conversation turns; the preamble is estimated
+    const { totalTokens } = await client.countTokens(baseModel, { contents: request.contents });
+    if (typeof totalTokens === "number") {
+      return { tokens: totalTokens + estimatePreamble(request), estimated: false };
+    }
+  } catch {
+    // Fall through to the estimate
+  }
+
+  return { tokens: estimateTokens(request), estimated: true };
+}
+
+/**
+ * Whether a turn can open the conversation: a user turn that isn't answering a tool call
+ */
+function startsConversation(content: AntigravityContent): boolean {
+  return content.role === "user" && !content.parts.some((p) => p.functionResponse);
+}
+
+/**
+ * Drop the oldest turns until about `excess` tokens are removed, keeping
+ * tool calls with their results and at least the latest turn
+ */
+function dropOldestTurns(request: AntigravityRequest, excess: number, scale: number): void {
+  let removed = 0;
+
+  while (removed < excess && request.contents.length > 1) {
+    do {
+      removed += estimateContent(request.contents.shift()!) * scale;
+    } while (request.contents.length > 1 && !startsConversation(request.contents[0]));
+  }
+}
+
+/**
+ * Check a request against the model's context length, leaving room for the
+ * requested completion. With truncation the oldest turns are dropped to fit;
+ * otherwise, or if it still doesn't fit, throws ContextLengthError.
+ */
+export async function fitContext(
+  model: string,
+  request: AntigravityRequest,
+  truncation: Truncation
+): Promise<void> {
+  const limit = getModelStatus(model)?.model.context_length;
+  if (!limit) return;
+
+  const completionTokens = request.generationConfig?.maxOutputTokens || 0;
+  const budget = limit - completionTokens;
+
+  // Small prompts skip the backend round trip
+  const estimate = estimateTokens(request);
+  if (estimate <= budget * EXACT_COUNT_THRESHOLD) return;
+
+  let { tokens } = await countTokens(model, request);
+  if (tokens <= budget) return;
+
+  // Each round drops at least one turn, sized by the local estimate scaled to the real count
+  while (truncation === "auto" && tokens > budget && request.contents.length > 1) {
+    dropOldestTurns(request, tokens - budget, tokens / estimateTokens(request));
+    ({ tokens } = await countTokens(model, request));
+  }
+
+  if (tokens > budget) {
+    throw new ContextLengthError(limit, tokens, completionTokens);
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Usage accounting store backed by a local SQLite database
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import type { StreamChunk } from "./client";
+import type { ApiKey } from "./keystore";
+import { CONFIG_DIR } from "./storage";
+
+const USAGE_DB = join(CONFIG_DIR, "usage.db");
+
+export interface UsageTokens {
+  promptTokens?: number;
+  completionTokens?: number;
+  thinkingTokens?: number;
+}
+
+export type UsageOutcome = "success" | "error" | "cancelled";
+
+export type UsageGroup = "day" | "model" | "client" | "endpoint";
+
+export interface UsageQuery {
+  groupBy: UsageGroup[];
+  startDate?: string;
+  endDate?: string;
+  model?: string;
+  client?: string;
+}
+
+const GROUP_COLUMNS: Record<UsageGroup, string> = {
+  day: "day",
+  model: "model",
+  client: "client_id",
+  endpoint: "endpoint",
+};
+
+let db: Database | null = null;
+
+/**
+ * Open the usage database, creating the schema on first use
+ */
+function getDb(): Database {
+  if (db) return db;
+
+  mkdirSync(CONFIG_DIR, { recursive: true });
+  db = new Database(USAGE_DB, { create: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(`
+    CREATE TABLE IF NOT EXISTS usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp INTEGER NOT NULL,
+      day TEXT NOT NULL,
+      endpoint TEXT NOT NULL,
+      model TEXT NOT NULL,
+      client_id TEXT NOT NULL,
+      client_name TEXT NOT NULL,
+      prompt_tokens INTEGER NOT NULL DEFAULT 0,
+      completion_tokens INTEGER NOT NULL DEFAULT 0,
+      thinking_tokens INTEGER NOT NULL DEFAULT 0,
+      latency_ms INTEGER NOT NULL,
+      outcome TEXT NOT NULL,
+      error TEXT
+    )
+  `);
+  db.run("CREATE INDEX IF NOT EXISTS usage_day ON usage (day)");
+  db.run("CREATE INDEX IF NOT EXISTS usage_client_day ON usage (client_id, day)");
+
+  return db;
+}
+
+/**
+ * Extract token counts from an Antigravity response's usage metadata
+ */
+export function tokensFromResponse(response: unknown): UsageTokens | undefined {
+  const usageMetadata = (response as {
+    usageMetadata?: {
+      promptTokenCount?: number;
+      candidatesTokenCount?: number;
+      thoughtsTokenCount?: number;
+    };
+  } | undefined)?.usageMetadata;
+  if (!usageMetadata) return undefined;
+
+  return {
+    promptTokens: usageMetadata.promptTokenCount,
+    completionTokens: usageMetadata.candidatesTokenCount,
+    thinkingTokens: usageMetadata.thoughtsTokenCount,
+  };
+}
+
+/**
+ * Total tokens a key has used on the current UTC day
+ */
+export function tokensUsedToday(clientId: string): number {
+  const row = getDb()
+    .query(
+      `SELECT COALESCE(SUM(prompt_tokens + completion_tokens + thinking_tokens), 0) AS total
+       FROM usage WHERE client_id = ? AND day = ?`
+    )
+    .get(clientId, new Date().toISOString().slice(0, 10)) as { total: number };
+
+  return row.total;
+}
+
+/**
+ * Start tracking a completion request. Call `finish` once, or pass a stream
+ * through `meter` to record usage when it ends.
+ */
+export function trackUsage(apiKey: ApiKey | null, endpoint: string, model: string) {
+  const startedAt = Date.now();
+  let finished = false;
+
+  const finish = (tokens: UsageTokens | undefined, outcome: UsageOutcome, error?: string): void => {
+    if (finished) return;
+    finished = true;
+
+    const promptTokens = tokens?.promptTokens || 0;
+    const completionTokens = tokens?.completionTokens || 0;
+    const thinkingTokens = tokens?.thinkingTokens || 0;
+
+    try {
+      getDb()
+        .query(
+          `INSERT INTO usage (timestamp, day, endpoint, model, client_id, client_name,
+             prompt_tokens, completion_tokens, thinking_tokens, latency_ms, outcome, error)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          startedAt,
+          new Date(startedAt).toISOString().slice(0, 10),
+          endpoint,
+          model,
+          apiKey?.id || "anonymous",
+          apiKey?.name || "anonymous",
+          promptTokens,
+          completionTokens,
+          thinkingTokens,
+          Date.now() - startedAt,
+          outcome,
+          error ?? null
+        );
+    } catch (err) {
+      console.error("[Usage] Failed to record usage:", err instanceof Error ? err.message : err);
+    }
+  };
+
+  /**
+   * Pass a stream through, recording its final usage and outcome
+   */
+  async function* meter(chunks: AsyncIterable<StreamChunk>): AsyncGenerator<StreamChunk> {
+    let tokens: UsageTokens | undefined;
+    let outcome: UsageOutcome = "cancelled";
+    let error: string | undefined;
+
+    try {
+      for await (const chunk of chunks) {
+        if (chunk.usage) {
+          tokens = {
+            promptTokens: chunk.usage.promptTokens,
+            completionTokens: chunk.usage.completionTokens,
+            thinkingTokens: chunk.usage.thinkingTokens,
+          };
+        }
+        if (chunk.type === "done") {
+          outcome = "success";
+        } else if (chunk.type === "error") {
+          outcome = "error";
+          error = chunk.error;
+        }
+        yield chunk;
+      }
+    } finally {
+      finish(tokens, outcome, error);
+    }
+  }
+
+  /**
+   * Record the request against the model that served it, after a fallback
+   */
+  const servedBy = (served: string): void => {
+    model = served;
+  };
+
+  return { finish, meter, servedBy };
+}
+
+/**
+ * Aggregate recorded usage
+ */
+export function queryUsage(query: UsageQuery): Array<Record<string, string | number>> {
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (query.startDate) {
+    conditions.push("day >= ?");
+    params.push(query.startDate);
+  }
+  if (query.endDate) {
+    conditions.push("day <= ?");
+    params.push(query.endDate);
+  }
+  if (query.model) {
+    conditions.push("model = ?");
+    params.push(query.model);
+  }
+  if (query.client) {
+    conditions.push("client_id = ?");
+    params.push(query.client);
+  }
+
+  const groupColumns = query.groupBy.map((g) => GROUP_COLUMNS[g]);
+  const selectColumns = [
+    ...query.groupBy.map((g) =>
+      g === "client"
+        ? "client_id AS client, MAX(client_name) AS client_name"
+        : `${GROUP_COLUMNS[g]} AS ${g}`
+    ),
+    "COUNT(*) AS requests",
+    "SUM(CASE WHEN outcome = 'error' THEN 1 ELSE 0 END) AS errors",
+    "SUM(prompt_tokens) AS prompt_tokens",
+    "SUM(completion_tokens) AS completion_tokens",
+    "SUM(thinking_tokens) AS thinking_tokens",
+    "SUM(prompt_tokens + completion_tokens + thinking_tokens) AS total_tokens",
+    "CAST(AVG(latency_ms) AS INTEGER) AS avg_latency_ms",
+  ];
+
+  const sql = [
+    `SELECT ${selectColumns.join(", ")} FROM usage`,
+    conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    groupColumns.length > 0 ? `GROUP BY ${groupColumns.join(", ")} ORDER BY ${groupColumns.join(", ")}` : "",
+  ].join(" ");
+
+  return getDb().query(sql).all(...params) as Array<Record<string, string | number>>;
+}